@@ -1,13 +1,99 @@
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { ConfirmationModal } from './components/ConfirmationModal';
+import { AggregationPanel } from './components/AggregationPanel';
 import { ControlPanel } from './components/ControlPanel';
+import { DistributionChart } from './components/DistributionChart';
+import { EconomicsPanel } from './components/EconomicsPanel';
 
+import { ImpliedStatementsPanel } from './components/ImpliedStatementsPanel';
+import { ImportValidationModal } from './components/ImportValidationModal';
+import { ScenarioDesignModal } from './components/ScenarioDesignModal';
 import { ScenarioEditModal } from './components/ScenarioEditModal';
 import { ScenarioTable } from './components/ScenarioTable';
-import { DEFAULT_ELICITATION_DATA } from './constants';
-import { generateCSV, parseCSV, ParsedCSVData } from './services/csvUtils';
+import { SeedQuestionsPanel } from './components/SeedQuestionsPanel';
+import { SurrogatePanel } from './components/SurrogatePanel';
+import { DEFAULT_ELICITATION_DATA, DEFAULT_FACTOR_ORDERINGS } from './constants';
+import { CSVTable, generateCSV, ParsedCSVData, parseCSVTable, readCSVTable, validateCSVTable } from './services/csvUtils';
+import { appendAuditEvents, commentEvent, diffDistributionEvents, diffStateEvents, generateAuditCSV } from './services/auditUtils';
+import { BenefitCoupling, BenefitSummary, DEFAULT_BENEFIT_COUPLING, DEFAULT_BENEFIT_THRESHOLD, sampleBenefit, summariseBenefit } from './services/benefitUtils';
 import { getEmptyUserScenario, hasScenarioUserEdits } from './services/distributionUtils';
-import { Scenario, UserDistribution, UserElicitationData } from './types';
+import { downloadFile } from './services/downloadUtils';
+import { DEFAULT_ECONOMIC_INPUTS, EconomicInputs } from './services/economicsUtils';
+import { createEmptyHistory, EditHistory, recordHistory, redoHistory, undoHistory } from './services/historyUtils';
+import { findMonotonicityViolations } from './services/monotonicityUtils';
+import { ACTIVE_PROJECT, ARMS, AVAILABLE_PROJECTS, COMPARISON_ARMS, getArmConfig, getProjectUrl } from './services/projectUtils';
+import {
+    AUTOSAVE_DELAY_MS,
+    createSavedSession,
+    deleteSavedSession,
+    getActiveSessionId,
+    getDefaultSessionName,
+    listSavedSessions,
+    loadSessionSnapshot,
+    renameSavedSession,
+    saveSessionSnapshot,
+    SavedSessionInfo,
+    setActiveSessionId as storeActiveSessionId
+} from './services/persistenceUtils';
+import {
+    buildScenarioSamples,
+    generateSamplesCSV,
+    generateSamplesJSON,
+    getSampledScenarios,
+    getSampleProvenance,
+    SampleExportFormat,
+    validateSampleExport
+} from './services/sampleExportUtils';
+import {
+    buildSessionFile,
+    describeDefaultsMismatch,
+    EMPTY_EXPERT,
+    ExpertIdentity,
+    parseSessionFile,
+    serializeSessionFile,
+    SessionSnapshot
+} from './services/sessionFileUtils';
+import { ArmId, AuditEvent, ElicitationProtocol, FlagAcknowledgements, Scenario, SeedAnswers, UserDistribution, UserElicitationData, UserScenarioDistribution } from './types';
+
+type AppView = 'elicitation' | 'economics' | 'surrogate' | 'aggregation';
+
+const VIEWS: { id: AppView; label: string }[] = [
+    { id: 'elicitation', label: 'Elicitation' },
+    { id: 'economics', label: 'Spray Economics' },
+    { id: 'surrogate', label: 'Surrogate Model' },
+    { id: 'aggregation', label: 'Multi-Expert Aggregation' },
+];
+
+// The parts of a session covered by undo/redo
+type UndoableState = Pick<SessionSnapshot, 'scenarios' | 'userElicitationData'>;
+
+// Project text may mark bold passages with **double asterisks**
+const FormattedText: React.FC<{ text: string }> = ({ text }) => (
+    <>
+        {text.split('**').map((part, index) => index % 2 === 1
+            ? <span key={index} className="font-semibold">{part}</span>
+            : <React.Fragment key={index}>{part}</React.Fragment>)}
+    </>
+);
+
+const getDefaultSnapshot = (): SessionSnapshot => {
+    const groups = Array.from(new Set(DEFAULT_ELICITATION_DATA.scenarios.map(s => s.scenario_group)));
+    return {
+        expert: EMPTY_EXPERT,
+        scenarios: DEFAULT_ELICITATION_DATA.scenarios,
+        userElicitationData: DEFAULT_ELICITATION_DATA.userElicitationData,
+        yieldColumn: DEFAULT_ELICITATION_DATA.yieldColumn,
+        selectedGroup: groups.length > 0 ? groups[0] : null,
+        selectedScenarioId: null,
+        flagAcknowledgements: {},
+        economicInputs: DEFAULT_ECONOMIC_INPUTS,
+        benefitThreshold: DEFAULT_BENEFIT_THRESHOLD,
+        benefitCoupling: DEFAULT_BENEFIT_COUPLING,
+        auditTrail: [],
+        protocol: ACTIVE_PROJECT.protocol,
+        seedAnswers: {},
+    };
+};
 
 const App: React.FC = () => {
     const [scenarios, setScenarios] = useState<Scenario[]>(DEFAULT_ELICITATION_DATA.scenarios);
@@ -19,6 +105,26 @@ const App: React.FC = () => {
     const [scenarioToEdit, setScenarioToEdit] = useState<Scenario | null>(null);
     const [confirmDeleteModalOpen, setConfirmDeleteModalOpen] = useState(false);
     const [scenarioToDelete, setScenarioToDelete] = useState<string | null>(null);
+    const [designModalOpen, setDesignModalOpen] = useState(false);
+    const [importReview, setImportReview] = useState<{ fileName: string; table: CSVTable } | null>(null);
+    
+    const [activeView, setActiveView] = useState<AppView>('elicitation');
+    const [benefitThreshold, setBenefitThreshold] = useState<number>(DEFAULT_BENEFIT_THRESHOLD);
+    const [benefitCoupling, setBenefitCoupling] = useState<BenefitCoupling>(DEFAULT_BENEFIT_COUPLING);
+    const [economicInputs, setEconomicInputs] = useState<EconomicInputs>(DEFAULT_ECONOMIC_INPUTS);
+    const [flagAcknowledgements, setFlagAcknowledgements] = useState<FlagAcknowledgements>({});
+    const [expert, setExpert] = useState<ExpertIdentity>(EMPTY_EXPERT);
+    const [auditTrail, setAuditTrail] = useState<AuditEvent[]>([]);
+    const [protocol, setProtocol] = useState<ElicitationProtocol>(ACTIVE_PROJECT.protocol);
+    const [seedAnswers, setSeedAnswers] = useState<SeedAnswers>({});
+
+    // Autosaved sessions in browser storage
+    const [savedSessions, setSavedSessions] = useState<SavedSessionInfo[]>(() => listSavedSessions());
+    const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+    const [restoreCandidate, setRestoreCandidate] = useState<SavedSessionInfo | null>(null);
+    const [autosaveError, setAutosaveError] = useState<string | null>(null);
+
+    const [editHistory, setEditHistory] = useState<EditHistory<UndoableState>>(() => createEmptyHistory());
     
     // Instructions collapse state
     const [instructionsCollapsed, setInstructionsCollapsed] = useState(false);
@@ -51,62 +157,355 @@ const App: React.FC = () => {
     }, [selectedGroup, scenariosInGroup, selectedScenarioId]);
 
 
-    const handleDistributionChange = useCallback((scenarioId: string, type: 'baseline' | 'treatment', newDistribution: UserDistribution) => {
-        setUserElicitationData(prev => {
-            const existingScenario = prev[scenarioId] || getEmptyUserScenario();
+    const sessionSnapshot = useMemo<SessionSnapshot>(() => ({
+        expert,
+        scenarios,
+        userElicitationData,
+        yieldColumn,
+        selectedGroup,
+        selectedScenarioId,
+        flagAcknowledgements,
+        economicInputs,
+        benefitThreshold,
+        benefitCoupling,
+        auditTrail,
+        protocol,
+        seedAnswers,
+    }), [expert, scenarios, userElicitationData, yieldColumn, selectedGroup, selectedScenarioId, flagAcknowledgements, economicInputs, benefitThreshold, benefitCoupling, auditTrail, protocol, seedAnswers]);
+
+    const latestSnapshot = useRef(sessionSnapshot);
+    latestSnapshot.current = sessionSnapshot;
+    const lastSavedJSON = useRef<string | null>(null);
+
+    const persistSnapshot = useCallback((sessionId: string, snapshot: SessionSnapshot) => {
+        const json = JSON.stringify(snapshot);
+        if (json === lastSavedJSON.current) {
+            return;
+        }
+        try {
+            saveSessionSnapshot(sessionId, snapshot);
+            lastSavedJSON.current = json;
+            setSavedSessions(listSavedSessions());
+            setAutosaveError(null);
+        } catch (error) {
+            console.error('Failed to autosave session:', error);
+            setAutosaveError('Autosave failed. Browser storage may be full or disabled, so download your results to keep them.');
+        }
+    }, []);
+
+    const applySnapshot = useCallback((snapshot: SessionSnapshot) => {
+        const defaults = getDefaultSnapshot();
+        setExpert({ ...EMPTY_EXPERT, ...snapshot.expert });
+        setScenarios(snapshot.scenarios ?? defaults.scenarios);
+        setUserElicitationData(snapshot.userElicitationData ?? defaults.userElicitationData);
+        setYieldColumn(snapshot.yieldColumn ?? null);
+        setSelectedGroup(snapshot.selectedGroup ?? null);
+        setSelectedScenarioId(snapshot.selectedScenarioId ?? null);
+        setFlagAcknowledgements(snapshot.flagAcknowledgements ?? {});
+        setEconomicInputs({ ...DEFAULT_ECONOMIC_INPUTS, ...snapshot.economicInputs });
+        setBenefitThreshold(snapshot.benefitThreshold ?? DEFAULT_BENEFIT_THRESHOLD);
+        setBenefitCoupling(snapshot.benefitCoupling ?? DEFAULT_BENEFIT_COUPLING);
+        setAuditTrail(snapshot.auditTrail ?? []);
+        setProtocol(snapshot.protocol ?? ACTIVE_PROJECT.protocol);
+        setSeedAnswers(snapshot.seedAnswers ?? {});
+    }, []);
+
+    const openSession = useCallback((info: SavedSessionInfo, snapshot: SessionSnapshot) => {
+        applySnapshot(snapshot);
+        setEditHistory(createEmptyHistory());
+        lastSavedJSON.current = null;
+        storeActiveSessionId(info.id);
+        setActiveSessionId(info.id);
+    }, [applySnapshot]);
+
+    const startNewSession = useCallback((name: string, snapshot: SessionSnapshot, createdAt?: string) => {
+        try {
+            const info = createSavedSession(name, createdAt);
+            setSavedSessions(listSavedSessions());
+            openSession(info, snapshot);
+        } catch (error) {
+            console.error('Failed to create session:', error);
+            setAutosaveError('Autosave is unavailable in this browser, so download your results to keep them.');
+        }
+    }, [openSession]);
+
+    // On load, offer to restore the session that was open last time
+    const sessionCheckDone = useRef(false);
+    useEffect(() => {
+        if (sessionCheckDone.current) return;
+        sessionCheckDone.current = true;
+        const previousId = getActiveSessionId();
+        const previous = listSavedSessions().find(s => s.id === previousId);
+        if (previous && loadSessionSnapshot(previous.id)) {
+            setRestoreCandidate(previous);
+        } else {
+            startNewSession(getDefaultSessionName(), latestSnapshot.current);
+        }
+    }, [startNewSession]);
+
+    // Autosave shortly after each change, and immediately if the page is closed
+    useEffect(() => {
+        if (!activeSessionId) return;
+        const timer = setTimeout(() => persistSnapshot(activeSessionId, sessionSnapshot), AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [activeSessionId, sessionSnapshot, persistSnapshot]);
+
+    useEffect(() => {
+        if (!activeSessionId) return;
+        const handleBeforeUnload = () => persistSnapshot(activeSessionId, latestSnapshot.current);
+        window.addEventListener('beforeunload', handleBeforeUnload);
+        return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+    }, [activeSessionId, persistSnapshot]);
+
+    const handleRestoreSession = useCallback(() => {
+        const snapshot = restoreCandidate ? loadSessionSnapshot(restoreCandidate.id) : null;
+        if (restoreCandidate && snapshot) {
+            openSession(restoreCandidate, snapshot);
+        } else {
+            startNewSession(getDefaultSessionName(), latestSnapshot.current);
+        }
+        setRestoreCandidate(null);
+    }, [restoreCandidate, openSession, startNewSession]);
+
+    const handleStartFresh = useCallback(() => {
+        setRestoreCandidate(null);
+        startNewSession(getDefaultSessionName(), latestSnapshot.current);
+    }, [startNewSession]);
+
+    const handleSwitchSession = useCallback((sessionId: string) => {
+        if (sessionId === activeSessionId) return;
+        const info = listSavedSessions().find(s => s.id === sessionId);
+        const snapshot = loadSessionSnapshot(sessionId);
+        if (!info || !snapshot) {
+            alert('That session could not be loaded from browser storage.');
+            return;
+        }
+        if (activeSessionId) {
+            persistSnapshot(activeSessionId, latestSnapshot.current);
+        }
+        openSession(info, snapshot);
+    }, [activeSessionId, openSession, persistSnapshot]);
+
+    const handleNewSession = useCallback(() => {
+        const name = window.prompt('Name for the new session:', getDefaultSessionName());
+        if (name === null) return;
+        if (activeSessionId) {
+            persistSnapshot(activeSessionId, latestSnapshot.current);
+        }
+        startNewSession(name.trim() || getDefaultSessionName(), getDefaultSnapshot());
+    }, [activeSessionId, persistSnapshot, startNewSession]);
+
+    const handleRenameSession = useCallback((sessionId: string, name: string) => {
+        renameSavedSession(sessionId, name);
+        setSavedSessions(listSavedSessions());
+    }, []);
+
+    const handleDeleteSession = useCallback((sessionId: string) => {
+        deleteSavedSession(sessionId);
+        setSavedSessions(listSavedSessions());
+    }, []);
+
+    // Call before applying an edit so it can be undone
+    const recordEdit = useCallback((label: string, key?: string) => {
+        const { scenarios: previousScenarios, userElicitationData: previousData } = latestSnapshot.current;
+        const time = Date.now();
+        setEditHistory(prev => recordHistory(prev, { scenarios: previousScenarios, userElicitationData: previousData }, label, key, time));
+    }, []);
+
+    const applyUndoableState = useCallback((state: UndoableState) => {
+        setScenarios(state.scenarios);
+        setUserElicitationData(state.userElicitationData);
+    }, []);
+
+    const handleUndo = useCallback(() => {
+        const current = { scenarios, userElicitationData };
+        const result = undoHistory(editHistory, current);
+        if (!result) return;
+        setEditHistory(result.history);
+        setAuditTrail(prev => appendAuditEvents(prev, diffStateEvents(current, result.state, new Date().toISOString(), 'undo')));
+        applyUndoableState(result.state);
+    }, [editHistory, scenarios, userElicitationData, applyUndoableState]);
+
+    const handleRedo = useCallback(() => {
+        const current = { scenarios, userElicitationData };
+        const result = redoHistory(editHistory, current);
+        if (!result) return;
+        setEditHistory(result.history);
+        setAuditTrail(prev => appendAuditEvents(prev, diffStateEvents(current, result.state, new Date().toISOString(), 'redo')));
+        applyUndoableState(result.state);
+    }, [editHistory, scenarios, userElicitationData, applyUndoableState]);
+
+    // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own native undo
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+            const target = event.target as HTMLElement | null;
+            if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                handleUndo();
+            } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+                event.preventDefault();
+                handleRedo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [handleUndo, handleRedo]);
+
+    // Arms changed together, such as a compared arm pulled down by the reference arm, are one undo step.
+    // The key is per scenario so a drag that moves both arms keeps merging into that step.
+    const handleDistributionChanges = useCallback((scenarioId: string, changes: Record<ArmId, UserDistribution>) => {
+        const armIds = Object.keys(changes);
+        if (armIds.length === 0) return;
+        const label = armIds.length === 1
+            ? `Edit ${getArmConfig(armIds[0]).label.toLowerCase()} distribution for ${scenarioId}`
+            : `Edit distributions for ${scenarioId}`;
+        recordEdit(label, `distribution|${scenarioId}`);
+        const timestamp = new Date().toISOString();
+        const previous = latestSnapshot.current.userElicitationData[scenarioId];
+        const events = armIds.flatMap(armId => diffDistributionEvents(scenarioId, armId, previous?.[armId], changes[armId], timestamp));
+        setAuditTrail(prev => appendAuditEvents(prev, events));
+        setUserElicitationData(prev => ({
+            ...prev,
+            [scenarioId]: { ...(prev[scenarioId] || getEmptyUserScenario()), ...changes }
+        }));
+    }, [recordEdit]);
+
+    const handleApplySuggestion = useCallback((scenarioId: string, values: UserScenarioDistribution) => {
+        recordEdit(`Apply suggested values to ${scenarioId}`);
+        const timestamp = new Date().toISOString();
+        const previous = latestSnapshot.current.userElicitationData[scenarioId];
+        const events = ARMS.flatMap(arm => diffDistributionEvents(scenarioId, arm.id, previous?.[arm.id], values[arm.id], timestamp));
+        setAuditTrail(prev => appendAuditEvents(prev, events));
+        setUserElicitationData(prev => ({
+            ...prev,
+            [scenarioId]: { ...(prev[scenarioId] || getEmptyUserScenario()), ...values }
+        }));
+    }, [recordEdit]);
+
+    const loadSessionFile = useCallback((text: string, fileName: string) => {
+        try {
+            const sessionFile = parseSessionFile(text);
+            if (sessionFile.project !== ACTIVE_PROJECT.id && !window.confirm(
+                `This session belongs to the "${sessionFile.project}" project, but "${ACTIVE_PROJECT.id}" is open. Load it anyway?`
+            )) {
+                return;
+            }
+            const mismatches = describeDefaultsMismatch(sessionFile.defaults);
+            if (mismatches.length > 0 && !window.confirm(
+                `This session was made with different defaults. Scenarios the expert worked on keep the session's defaults in their untouched fields; untouched scenarios will show the current ones:\n\n${mismatches.join('\n')}\n\nLoad it anyway?`
+            )) {
+                return;
+            }
+            if (activeSessionId) {
+                persistSnapshot(activeSessionId, latestSnapshot.current);
+            }
+            // Opened as its own saved session so the current one is kept
+            startNewSession(sessionFile.name || fileName, sessionFile.session, sessionFile.createdAt);
+            alert('Session loaded successfully!');
+        } catch (error) {
+            console.error('Failed to load session file:', error);
+            alert(`Error loading session file. ${error instanceof Error ? error.message : ''}`);
+        }
+    }, [activeSessionId, persistSnapshot, startNewSession]);
+
+    const applyImportedTable = useCallback((table: CSVTable) => {
+        try {
+            const parsedData: ParsedCSVData = parseCSVTable(table);
             
-            return {
-                ...prev,
-                [scenarioId]: {
-                    ...existingScenario,
-                    [type]: newDistribution
-                }
-            };
-        });
+            // Update scenarios, elicitation data, and yield column
+            setScenarios(parsedData.scenarios);
+            setUserElicitationData(parsedData.userElicitationData);
+            setYieldColumn(parsedData.yieldColumn);
+            setEditHistory(createEmptyHistory());
+            
+            // Reset to first group in loaded scenarios
+            const loadedGroups = [...new Set(parsedData.scenarios.map(s => s.scenario_group))];
+            setSelectedGroup(loadedGroups.length > 0 ? loadedGroups[0] : null);
+            
+            alert(`Loaded ${parsedData.scenarios.length} rows.`);
+        } catch (error) {
+            console.error("Failed to parse CSV:", error);
+            alert(`Error loading file: ${error instanceof Error ? error.message : String(error)}`);
+        }
     }, []);
 
     const handleFileUpload = useCallback((file: File) => {
         const reader = new FileReader();
         reader.onload = (event) => {
+            const text = event.target?.result as string;
+            if (file.name.toLowerCase().endsWith('.json')) {
+                loadSessionFile(text, file.name.replace(/\.json$/i, ''));
+                return;
+            }
             try {
-                const text = event.target?.result as string;
-                const parsedData: ParsedCSVData = parseCSV(text, []); // Pass empty array to rebuild from scratch
-                
-                // Update scenarios, elicitation data, and yield column
-                setScenarios(parsedData.scenarios);
-                setUserElicitationData(parsedData.userElicitationData);
-                setYieldColumn(parsedData.yieldColumn);
-                
-                // Reset to first group in loaded scenarios
-                const loadedGroups = [...new Set(parsedData.scenarios.map(s => s.scenario_group))];
-                setSelectedGroup(loadedGroups.length > 0 ? loadedGroups[0] : null);
-                
-                alert('Data loaded successfully!');
+                const table = readCSVTable(text);
+                // Files with problems are reviewed row by row before anything is loaded
+                if (validateCSVTable(table).length > 0) {
+                    setImportReview({ fileName: file.name, table });
+                    return;
+                }
+                applyImportedTable(table);
             } catch (error) {
                 console.error("Failed to parse CSV:", error);
-                alert('Error loading file. Please ensure it is a valid CSV file from a previous session.');
+                alert(`Error loading file: ${error instanceof Error ? error.message : 'please ensure it is a valid CSV file from a previous session.'}`);
             }
         };
         reader.readAsText(file);
-    }, []);
+    }, [loadSessionFile, applyImportedTable]);
     
     const handleFileDownload = useCallback(() => {
         try {
-            const csvContent = generateCSV(scenarios, userElicitationData);
-            const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-            const link = document.createElement('a');
-            const url = URL.createObjectURL(blob);
-            link.setAttribute('href', url);
-            link.setAttribute('download', 'elicitation_results.csv');
-            link.style.visibility = 'hidden';
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
+            const csvContent = generateCSV(scenarios, userElicitationData, { benefitThreshold, benefitCoupling });
+            downloadFile(csvContent, 'elicitation_results.csv', 'text/csv;charset=utf-8;');
         } catch (error) {
             console.error("Failed to generate CSV:", error);
             alert('Error generating file for download.');
         }
-    }, [scenarios, userElicitationData]);
+    }, [scenarios, userElicitationData, benefitThreshold, benefitCoupling]);
+
+    const handleSessionDownload = useCallback(() => {
+        const info = savedSessions.find(s => s.id === activeSessionId);
+        const sessionFile = buildSessionFile(latestSnapshot.current, {
+            name: info?.name ?? getDefaultSessionName(),
+            createdAt: info?.createdAt ?? new Date().toISOString(),
+        });
+        const slug = (expert.name || sessionFile.name).trim().replace(/[^a-z0-9]+/gi, '_').replace(/^_+|_+$/g, '').toLowerCase();
+        downloadFile(serializeSessionFile(sessionFile), `elicitation_session${slug ? `_${slug}` : ''}.json`, 'application/json');
+    }, [savedSessions, activeSessionId, expert]);
+
+    const handleAuditDownload = useCallback((format: 'csv' | 'json') => {
+        if (format === 'csv') {
+            downloadFile(generateAuditCSV(auditTrail), 'elicitation_audit_log.csv', 'text/csv;charset=utf-8;');
+        } else {
+            downloadFile(JSON.stringify(auditTrail, null, 2), 'elicitation_audit_log.json', 'application/json');
+        }
+    }, [auditTrail]);
+
+    const handleSamplesDownload = useCallback((format: SampleExportFormat, sampleSize: number, seed: number) => {
+        const options = { sampleSize, seed, coupling: benefitCoupling };
+        const sampled = getSampledScenarios(scenarios, userElicitationData);
+        const problem = validateSampleExport(options, sampled.length);
+        if (problem) {
+            alert(problem);
+            return;
+        }
+        try {
+            const samples = buildScenarioSamples(sampled, userElicitationData, options);
+            const provenance = getSampleProvenance(options, expert.name, sampled.length);
+            if (format === 'csv') {
+                downloadFile(generateSamplesCSV(samples, provenance), 'elicitation_samples.csv', 'text/csv;charset=utf-8;');
+            } else {
+                downloadFile(generateSamplesJSON(samples, provenance), 'elicitation_samples.json', 'application/json');
+            }
+        } catch (error) {
+            console.error('Failed to generate samples:', error);
+            alert('Error generating file for download.');
+        }
+    }, [scenarios, userElicitationData, benefitCoupling, expert]);
 
     const handleSelectScenario = useCallback((scenarioId: string) => {
         setSelectedScenarioId(scenarioId);
@@ -134,19 +533,38 @@ const App: React.FC = () => {
     }, []);
 
     const handleUpdateScenarioComment = useCallback((scenarioId: string, comment: string) => {
+        recordEdit(`Edit comment for ${scenarioId}`);
+        const previousComment = latestSnapshot.current.scenarios.find(s => s.id === scenarioId)?.comment ?? '';
+        setAuditTrail(prev => appendAuditEvents(prev, commentEvent(scenarioId, previousComment, comment, new Date().toISOString())));
         setScenarios(prev => prev.map(scenario => {
             if (scenario.id !== scenarioId) {
                 return scenario;
             }
             return {
                 ...scenario,
-                comment: comment.replace(/,/g, '')
+                comment
             };
         }));
+    }, [recordEdit]);
+
+    const handleAcknowledgeFlags = useCallback((updates: FlagAcknowledgements) => {
+        setFlagAcknowledgements(prev => {
+            const updated = { ...prev };
+            Object.entries(updates).forEach(([flagId, rationale]) => {
+                // Clearing the rationale withdraws the acknowledgement
+                if (rationale.trim()) {
+                    updated[flagId] = rationale.trim();
+                } else {
+                    delete updated[flagId];
+                }
+            });
+            return updated;
+        });
     }, []);
 
     const confirmDeleteScenario = useCallback(() => {
         if (scenarioToDelete) {
+            recordEdit(`Delete scenario ${scenarioToDelete}`);
             setScenarios(prev => prev.filter(s => s.id !== scenarioToDelete));
             
             // Remove elicitation data for deleted scenario
@@ -164,16 +582,32 @@ const App: React.FC = () => {
         }
         setConfirmDeleteModalOpen(false);
         setScenarioToDelete(null);
-    }, [scenarioToDelete, scenarios, selectedGroup, selectedScenarioId]);
+    }, [scenarioToDelete, scenarios, selectedGroup, selectedScenarioId, recordEdit]);
+
+    const handleApplyDesign = useCallback((generated: Scenario[], mode: 'replace' | 'append') => {
+        const current = latestSnapshot.current.scenarios;
+        recordEdit(mode === 'replace' ? `Replace scenarios with ${generated.length} generated rows` : `Add ${generated.length} generated rows`);
+        // A generated row already in its group is not added twice
+        const nextScenarios = mode === 'replace'
+            ? generated
+            : [...current, ...generated.filter(g => !current.some(s => s.id === g.id && s.scenario_group === g.scenario_group))];
+        const keptIds = new Set(nextScenarios.map(s => s.id));
+        setScenarios(nextScenarios);
+        // Generated rows reuse the ids of matching scenarios, so their elicited values carry over
+        setUserElicitationData(prev => Object.fromEntries(Object.entries(prev).filter(([scenarioId]) => keptIds.has(scenarioId))));
+        setSelectedGroup(generated[0]?.scenario_group ?? null);
+        setDesignModalOpen(false);
+    }, [recordEdit]);
 
     const handleSaveNewScenario = useCallback((scenario: Scenario) => {
+        recordEdit(`Add scenario ${scenario.id}`);
         setScenarios(prev => [...prev, scenario]);
         setEditModalOpen(false);
         setScenarioToEdit(null);
         
         // Select the new scenario
         setSelectedScenarioId(scenario.id);
-    }, []);
+    }, [recordEdit]);
 
 
 
@@ -187,16 +621,70 @@ const App: React.FC = () => {
         return status;
     }, [scenarios, userElicitationData]);
 
+    const monotonicityFlags = useMemo(
+        () => findMonotonicityViolations(scenarios, userElicitationData, DEFAULT_FACTOR_ORDERINGS),
+        [scenarios, userElicitationData]
+    );
+
+    // Benefit of each compared arm (reference loss minus the arm's loss) for every scenario the expert has worked on
+    const benefitSummaries = useMemo(() => {
+        const summaries: { [scenarioId: string]: Record<ArmId, BenefitSummary> } = {};
+        for (const scenario of scenarios) {
+            const userData = userElicitationData[scenario.id];
+            if (userData && hasScenarioUserEdits(userData) && !summaries[scenario.id]) {
+                summaries[scenario.id] = Object.fromEntries(COMPARISON_ARMS.map(arm => [
+                    arm.id,
+                    summariseBenefit(sampleBenefit(scenario.id, userData, arm.id, benefitCoupling), benefitThreshold),
+                ]));
+            }
+        }
+        return summaries;
+    }, [scenarios, userElicitationData, benefitThreshold, benefitCoupling]);
+
     return (
         <div className="min-h-screen bg-gray-50 text-gray-800 p-4 sm:p-6 lg:p-8">
             <div className="max-w-7xl mx-auto">
                 <header className="mb-8">
-                    <h1 className="text-3xl sm:text-4xl font-bold text-gray-900">Expert Elicitation for Lupin Sclerotinia Management</h1>
-                    <p className="mt-2 text-lg text-gray-600">Define outcome distributions for different scenarios based on your expert knowledge.</p>
-                    <p className="mt-2 text-lg text-gray-600">The outcome range should reflect residual uncertainty, assuming all scenario factors are correct.</p>
+                    <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+                        <h1 className="text-3xl sm:text-4xl font-bold text-gray-900">{ACTIVE_PROJECT.title}</h1>
+                        {AVAILABLE_PROJECTS.length > 1 && (
+                            <label className="flex items-center gap-2 text-sm text-gray-600">
+                                Project
+                                <select
+                                    value={ACTIVE_PROJECT.id}
+                                    onChange={(e) => window.location.assign(getProjectUrl(e.target.value))}
+                                    className="px-2 py-1 border border-gray-300 rounded-md"
+                                >
+                                    {AVAILABLE_PROJECTS.map(project => (
+                                        <option key={project.id} value={project.id}>{project.title}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        )}
+                    </div>
+                    {ACTIVE_PROJECT.subtitle.map((line, index) => (
+                        <p key={index} className="mt-2 text-lg text-gray-600"><FormattedText text={line} /></p>
+                    ))}
                 </header>
+
+                <nav className="mb-8 -mb-px flex space-x-8 border-b border-gray-200">
+                    {VIEWS.map(view => (
+                        <button
+                            key={view.id}
+                            onClick={() => setActiveView(view.id)}
+                            className={`whitespace-nowrap pb-3 px-1 border-b-2 font-medium text-sm ${
+                                activeView === view.id
+                                ? 'border-indigo-500 text-indigo-600'
+                                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                            }`}
+                        >
+                            {view.label}
+                        </button>
+                    ))}
+                </nav>
                 
-                <main className="flex flex-col gap-8">
+                {/* Views with their own working state stay mounted when hidden */}
+                <main className={activeView === 'elicitation' ? 'flex flex-col gap-8' : 'hidden'}>
                     {/* Instructions and Session Management in horizontal layout on larger screens */}
                     <div className="flex flex-col lg:flex-row gap-8">
                         <div className="flex flex-col gap-6 flex-1">
@@ -222,14 +710,9 @@ const App: React.FC = () => {
                                 </div>
                                 {!instructionsCollapsed && (
                                     <ol className="list-decimal list-inside space-y-2 text-gray-700">
-                                        <li>Select a scenario group using the tabs (e.g., 'canopy density').</li>
-                                        <li>Select a specific scenario from the table. The selected row will be highlighted.</li>
-                                        <li>Using the sliders, adjust the yield loss range for 'Unsprayed' (blue) and 'Sprayed' (green) outcomes.</li>
-                                        <li>The min/max inputs should encode the plausible range after accounting for the scenario context; the mode reflects the most likely point within that range.</li>
-                                        <li>Use the sliders to indicate your <span className="font-semibold">Confidence</span> in each distribution.</li>
-                                        <li>Faded lines on the chart show other distributions from the <span className="font-semibold">current group</span> for comparison.</li>
-                                        <li><span className="font-semibold">Your progress is NOT saved automatically.</span> Use the Session Management buttons to download or upload your session.</li>
-                                        <li>If you prefer to work in a spreadsheet, you can download the results and fill the values in manually.</li>
+                                        {ACTIVE_PROJECT.instructions.map((item, index) => (
+                                            <li key={index}><FormattedText text={item} /></li>
+                                        ))}
                                     </ol>
                                 )}
                             </div>
@@ -256,11 +739,9 @@ const App: React.FC = () => {
                                 </div>
                                 {!assumptionsCollapsed && (
                                     <ol className="list-decimal list-inside space-y-2 text-gray-700">
-                                        <li>For each scenario, assume the paddock has had a wheat-canola-lupin rotation, with a history of sclerotinia yield loss.</li>
-                                        <li>The current crop stage (for the rainfall observations) is the start of flowering, roughly optimum timing to apply a spray. eg. the 2-week rainfall outlook occurs after spray.</li>
-                                        <li>The sprayed treatment was applied at the optimum time, with an effective chemical. </li>
-                                        <li>The scenario is representative of the whole paddock, which is a plausible size for the region.</li>
-                                        
+                                        {ACTIVE_PROJECT.assumptions.map((item, index) => (
+                                            <li key={index}><FormattedText text={item} /></li>
+                                        ))}
                                     </ol>
                                 )}
                             </div>
@@ -268,26 +749,113 @@ const App: React.FC = () => {
 
                         {/* Session Management - beside instructions on large screens, above scenario on smaller screens */}
                         <div className="lg:w-80 lg:flex-shrink-0">
-                            <ControlPanel onUpload={handleFileUpload} onDownload={handleFileDownload} />
+                            <ControlPanel
+                                onUpload={handleFileUpload}
+                                onDownload={handleFileDownload}
+                                onDownloadSession={handleSessionDownload}
+                                auditEventCount={auditTrail.length}
+                                onDownloadAuditLog={handleAuditDownload}
+                                onDownloadSamples={handleSamplesDownload}
+                                expert={expert}
+                                onExpertChange={setExpert}
+                                protocol={protocol}
+                                onProtocolChange={setProtocol}
+                                sessions={savedSessions}
+                                activeSessionId={activeSessionId}
+                                autosaveError={autosaveError}
+                                onSwitchSession={handleSwitchSession}
+                                onNewSession={handleNewSession}
+                                onRenameSession={handleRenameSession}
+                                onDeleteSession={handleDeleteSession}
+                                onGenerateScenarios={() => setDesignModalOpen(true)}
+                            />
+                        </div>
+                    </div>
+
+                    {ACTIVE_PROJECT.seedQuestions.length > 0 && (
+                        <SeedQuestionsPanel
+                            questions={ACTIVE_PROJECT.seedQuestions}
+                            answers={seedAnswers}
+                            onAnswersChange={setSeedAnswers}
+                        />
+                    )}
+
+                    {/* Scenario table with the density chart beside it on extra-large screens */}
+                    <div className="flex flex-col xl:flex-row gap-8">
+                        <div className="flex-1 min-w-0">
+                            <ScenarioTable 
+                                scenarios={scenariosInGroup} 
+                                allScenarios={scenarios}
+                                factorOrderings={DEFAULT_FACTOR_ORDERINGS}
+                                groups={scenarioGroups}
+                                selectedGroup={selectedGroup}
+                                selectedScenarioId={selectedScenarioId}
+                                completionStatus={scenarioCompletionStatus}
+                                userElicitationData={userElicitationData}
+                                yieldColumn={yieldColumn}
+                                protocol={protocol}
+                                benefitSummaries={benefitSummaries}
+                                benefitThreshold={benefitThreshold}
+                                benefitCoupling={benefitCoupling}
+                                onBenefitThresholdChange={setBenefitThreshold}
+                                onBenefitCouplingChange={setBenefitCoupling}
+                                monotonicityFlags={monotonicityFlags}
+                                flagAcknowledgements={flagAcknowledgements}
+                                onAcknowledgeFlags={handleAcknowledgeFlags}
+                                onSelectScenario={handleSelectScenario}
+                                onSelectGroup={handleSelectGroup}
+                                onAddScenario={handleAddScenario}
+                                onDeleteScenario={handleDeleteScenario}
+                                onDistributionChanges={handleDistributionChanges}
+                                onApplySuggestion={handleApplySuggestion}
+                                onUpdateComment={handleUpdateScenarioComment}
+                                auditTrail={auditTrail}
+                                undoLabel={editHistory.past[editHistory.past.length - 1]?.label ?? null}
+                                redoLabel={editHistory.future[editHistory.future.length - 1]?.label ?? null}
+                                onUndo={handleUndo}
+                                onRedo={handleRedo}
+                            />
+                        </div>
+                        <div className="xl:w-96 xl:flex-shrink-0">
+                            <div className="xl:sticky xl:top-8 flex flex-col gap-8">
+                                <DistributionChart
+                                    scenarios={scenariosInGroup}
+                                    selectedScenarioId={selectedScenarioId}
+                                    userElicitationData={userElicitationData}
+                                />
+                                <ImpliedStatementsPanel
+                                    selectedScenarioId={selectedScenarioId}
+                                    userElicitationData={userElicitationData}
+                                    benefitThreshold={benefitThreshold}
+                                    benefitCoupling={benefitCoupling}
+                                />
+                            </div>
                         </div>
                     </div>
+                </main>
 
-                    <ScenarioTable 
-                        scenarios={scenariosInGroup} 
-                        groups={scenarioGroups}
-                        selectedGroup={selectedGroup}
-                        selectedScenarioId={selectedScenarioId}
-                        completionStatus={scenarioCompletionStatus}
+                {activeView === 'economics' && (
+                    <EconomicsPanel
+                        scenarios={scenarios}
                         userElicitationData={userElicitationData}
                         yieldColumn={yieldColumn}
-                        onSelectScenario={handleSelectScenario}
-                        onSelectGroup={handleSelectGroup}
-                        onAddScenario={handleAddScenario}
-                        onDeleteScenario={handleDeleteScenario}
-                        onDistributionChange={handleDistributionChange}
-                        onUpdateComment={handleUpdateScenarioComment}
+                        inputs={economicInputs}
+                        benefitCoupling={benefitCoupling}
+                        onInputsChange={setEconomicInputs}
                     />
-                </main>
+                )}
+
+                {activeView === 'surrogate' && (
+                    <SurrogatePanel
+                        scenarios={scenarios}
+                        userElicitationData={userElicitationData}
+                        factorOrderings={DEFAULT_FACTOR_ORDERINGS}
+                    />
+                )}
+
+                <div className={activeView === 'aggregation' ? '' : 'hidden'}>
+                    <AggregationPanel />
+                </div>
             </div>
             
             {/* Modals */}
@@ -301,11 +869,45 @@ const App: React.FC = () => {
                     setScenarioToEdit(null);
                 }}
             />
+
+
+            <ScenarioDesignModal
+                isOpen={designModalOpen}
+                scenarios={scenarios}
+                factorOrderings={DEFAULT_FACTOR_ORDERINGS}
+                onApply={handleApplyDesign}
+                onCancel={() => setDesignModalOpen(false)}
+            />
+
+            {importReview && (
+                <ImportValidationModal
+                    key={importReview.fileName}
+                    fileName={importReview.fileName}
+                    table={importReview.table}
+                    onImport={(table) => {
+                        setImportReview(null);
+                        applyImportedTable(table);
+                    }}
+                    onCancel={() => setImportReview(null)}
+                />
+            )}
             
+            <ConfirmationModal
+                isOpen={restoreCandidate !== null}
+                title="Restore Previous Session"
+                message={restoreCandidate
+                    ? `Pick up "${restoreCandidate.name}" where you left off (last saved ${new Date(restoreCandidate.updatedAt).toLocaleString()})? Starting fresh keeps it in the session list.`
+                    : ''}
+                confirmText="Restore"
+                cancelText="Start Fresh"
+                onConfirm={handleRestoreSession}
+                onCancel={handleStartFresh}
+            />
+
             <ConfirmationModal
                 isOpen={confirmDeleteModalOpen}
                 title="Delete Scenario"
-                message="Are you sure you want to delete this scenario? This action cannot be undone and will remove all associated elicitation data."
+                message="Are you sure you want to delete this scenario? This will remove all associated elicitation data. You can restore it with Undo (Ctrl+Z)."
                 confirmText="Delete"
                 cancelText="Cancel"
                 onConfirm={confirmDeleteScenario}
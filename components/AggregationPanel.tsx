@@ -0,0 +1,392 @@
+import * as Plot from '@observablehq/plot';
+import React, { useMemo, useRef, useState } from 'react';
+import { generateSeedScoresCSV, scoreExperts } from '../services/calibrationUtils';
+import { parseCSV } from '../services/csvUtils';
+import { hasScenarioUserEdits } from '../services/distributionUtils';
+import { downloadFile } from '../services/downloadUtils';
+import { getDensityCurve } from '../services/fittingUtils';
+import { aggregateSessions, ExpertSession, generateParameterTableCSV, generatePooledCSV, PoolingMethod } from '../services/poolingUtils';
+import { ACTIVE_PROJECT, ARM_PALETTES, ARMS, REFERENCE_ARM } from '../services/projectUtils';
+import { parseSessionFile } from '../services/sessionFileUtils';
+import { ArmId } from '../types';
+import { DownloadIcon } from './icons/DownloadIcon';
+import { UploadIcon } from './icons/UploadIcon';
+import { PlotFigure } from './PlotFigure';
+
+type WeightingMode = 'equal' | 'custom' | 'performance';
+
+// Experts whose calibration falls below this are given no weight by default
+const DEFAULT_CALIBRATION_CUTOFF = 0.05;
+
+const ARM_COLORS: Record<ArmId, string> = Object.fromEntries(ARMS.map(arm => [arm.id, ARM_PALETTES[arm.colour].hex]));
+
+const readFileAsText = (file: File): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => resolve(event.target?.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+});
+
+export const AggregationPanel: React.FC = () => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [sessions, setSessions] = useState<ExpertSession[]>([]);
+    const [loadErrors, setLoadErrors] = useState<string[]>([]);
+    const [method, setMethod] = useState<PoolingMethod>('linear');
+    const [weighting, setWeighting] = useState<WeightingMode>('equal');
+    const [calibrationCutoff, setCalibrationCutoff] = useState(DEFAULT_CALIBRATION_CUTOFF);
+    const [selectedScenarioId, setSelectedScenarioId] = useState<string | null>(null);
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+        // Reset file input to allow uploading the same files again
+        event.target.value = '';
+
+        const loaded: ExpertSession[] = [];
+        const errors: string[] = [];
+        for (const file of files) {
+            try {
+                const text = await readFileAsText(file);
+                if (/\.json$/i.test(file.name)) {
+                    const { expert, session } = parseSessionFile(text);
+                    loaded.push({
+                        name: expert.name.trim() || file.name.replace(/\.json$/i, ''),
+                        weight: 1,
+                        data: { scenarios: session.scenarios, userElicitationData: session.userElicitationData, yieldColumn: session.yieldColumn },
+                        seedAnswers: session.seedAnswers
+                    });
+                } else {
+                    loaded.push({
+                        name: file.name.replace(/\.csv$/i, ''),
+                        weight: 1,
+                        data: parseCSV(text, [])
+                    });
+                }
+            } catch (error) {
+                console.error(`Failed to parse ${file.name}:`, error);
+                errors.push(`${file.name}: ${error instanceof Error ? error.message : 'could not be read'}`);
+            }
+        }
+        setSessions(prev => [...prev, ...loaded]);
+        setLoadErrors(errors);
+    };
+
+    const updateSession = (index: number, changes: Partial<ExpertSession>) => {
+        setSessions(prev => prev.map((session, i) => (i === index ? { ...session, ...changes } : session)));
+    };
+
+    const removeSession = (index: number) => {
+        setSessions(prev => prev.filter((_, i) => i !== index));
+    };
+
+    const seedQuestions = ACTIVE_PROJECT.seedQuestions;
+    const seedScores = useMemo(
+        () => scoreExperts(sessions.map(session => session.seedAnswers ?? {}), seedQuestions, calibrationCutoff),
+        [sessions, seedQuestions, calibrationCutoff]
+    );
+
+    const effectiveSessions = useMemo(() => {
+        if (weighting === 'equal') {
+            return sessions.map(session => ({ ...session, weight: 1 }));
+        }
+        if (weighting === 'performance') {
+            return sessions.map((session, i) => ({ ...session, weight: seedScores[i]?.weight ?? 0 }));
+        }
+        return sessions;
+    }, [sessions, weighting, seedScores]);
+
+    const displayedWeight = (index: number): number => {
+        if (weighting === 'equal') return 1;
+        if (weighting === 'performance') return Number((seedScores[index]?.weight ?? 0).toFixed(3));
+        return sessions[index].weight;
+    };
+
+    const handleScoresDownload = () => {
+        try {
+            const content = generateSeedScoresCSV(sessions.map(session => session.name), seedScores, calibrationCutoff);
+            downloadFile(content, 'expert_scores.csv', 'text/csv;charset=utf-8;');
+        } catch (error) {
+            console.error('Failed to generate expert scores CSV:', error);
+            alert('Error generating file for download.');
+        }
+    };
+
+    const pooledScenarios = useMemo(() => aggregateSessions(effectiveSessions, method), [effectiveSessions, method]);
+
+    const selectedPooled = useMemo(() => {
+        if (pooledScenarios.length === 0) return null;
+        return pooledScenarios.find(p => p.scenario.id === selectedScenarioId) ?? pooledScenarios[0];
+    }, [pooledScenarios, selectedScenarioId]);
+
+    const plotOptions = useMemo(() => {
+        const marks: Plot.Markish[] = [Plot.ruleY([0])];
+        if (selectedPooled) {
+            ARMS.forEach(({ id: type }) => {
+                const arm = selectedPooled.arms[type];
+                const individual = arm.contributions.flatMap(c =>
+                    getDensityCurve(c.fitted, c.fitted.lower, c.fitted.upper).map(point => ({ expert: c.expert, ...point }))
+                );
+                marks.push(Plot.lineY(individual, {
+                    x: 'x',
+                    y: 'density',
+                    z: 'expert',
+                    stroke: ARM_COLORS[type],
+                    strokeOpacity: 0.3,
+                    strokeWidth: 1
+                }));
+                if (arm.pooled) {
+                    marks.push(Plot.lineY(arm.pooled.points, {
+                        x: 'x',
+                        y: 'density',
+                        stroke: ARM_COLORS[type],
+                        strokeWidth: 3
+                    }));
+                }
+            });
+        }
+        return {
+            height: 280,
+            marginLeft: 48,
+            x: { label: 'Yield loss (%)' },
+            y: { label: 'Density', grid: true },
+            marks
+        };
+    }, [selectedPooled]);
+
+    const handleDownload = (kind: 'pooled' | 'parameters') => {
+        try {
+            const content = kind === 'pooled'
+                ? generatePooledCSV(pooledScenarios, method)
+                : generateParameterTableCSV(pooledScenarios, method);
+            downloadFile(content, kind === 'pooled' ? `pooled_${method}.csv` : `parameter_table_${method}.csv`, 'text/csv;charset=utf-8;');
+        } catch (error) {
+            console.error('Failed to generate pooled CSV:', error);
+            alert('Error generating file for download.');
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-8">
+            <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xl font-semibold text-gray-800">Expert Sessions</h2>
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-blue-700 bg-blue-100 hover:bg-blue-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+                    >
+                        <UploadIcon className="w-5 h-5 mr-2" />
+                        Add Sessions
+                    </button>
+                    <input
+                        type="file"
+                        ref={fileInputRef}
+                        onChange={handleFileChange}
+                        accept=".csv,.json"
+                        multiple
+                        className="hidden"
+                    />
+                </div>
+
+                {loadErrors.length > 0 && (
+                    <ul className="mb-4 text-sm text-red-600 list-disc list-inside">
+                        {loadErrors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                )}
+
+                {sessions.length === 0 ? (
+                    <p className="text-sm text-gray-500">Load each expert's elicitation_results.csv or session .json file to pool their distributions. Only session files carry calibration answers.</p>
+                ) : (
+                    <>
+                        <div className="flex flex-wrap gap-6 mb-4 text-sm text-gray-700">
+                            <label className="flex items-center gap-2">
+                                Pooling
+                                <select
+                                    value={method}
+                                    onChange={(e) => setMethod(e.target.value as PoolingMethod)}
+                                    className="px-2 py-1 border border-gray-300 rounded-md"
+                                >
+                                    <option value="linear">Linear (weighted mixture)</option>
+                                    <option value="logarithmic">Logarithmic (weighted geometric)</option>
+                                </select>
+                            </label>
+                            <label className="flex items-center gap-2">
+                                Weights
+                                <select
+                                    value={weighting}
+                                    onChange={(e) => setWeighting(e.target.value as WeightingMode)}
+                                    className="px-2 py-1 border border-gray-300 rounded-md"
+                                >
+                                    <option value="equal">Equal</option>
+                                    <option value="custom">User-defined</option>
+                                    {seedQuestions.length > 0 && <option value="performance">Performance (calibration × information)</option>}
+                                </select>
+                            </label>
+                            {weighting === 'performance' && (
+                                <label className="flex items-center gap-2">
+                                    Calibration cutoff
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        max="1"
+                                        step="0.01"
+                                        value={calibrationCutoff}
+                                        onChange={(e) => setCalibrationCutoff(Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)))}
+                                        className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                                    />
+                                </label>
+                            )}
+                            {seedQuestions.length > 0 && (
+                                <button
+                                    onClick={handleScoresDownload}
+                                    className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-green-700 bg-green-100 hover:bg-green-200"
+                                >
+                                    <DownloadIcon className="w-4 h-4 mr-1" />
+                                    Expert Scores CSV
+                                </button>
+                            )}
+                        </div>
+                        <table className="w-full text-sm text-left text-gray-600">
+                            <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                                <tr>
+                                    <th className="px-4 py-2">Expert</th>
+                                    <th className="px-4 py-2 w-32">Weight</th>
+                                    <th className="px-4 py-2 w-40">Scenarios answered</th>
+                                    {seedQuestions.length > 0 && (
+                                        <>
+                                            <th className="px-4 py-2 w-28">Calibration</th>
+                                            <th className="px-4 py-2 w-28">Information</th>
+                                        </>
+                                    )}
+                                    <th className="px-4 py-2 w-16"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {sessions.map((session, index) => {
+                                    const answered = Object.values(session.data.userElicitationData).filter(hasScenarioUserEdits).length;
+                                    return (
+                                        <tr key={index} className="border-b">
+                                            <td className="px-4 py-2">
+                                                <input
+                                                    type="text"
+                                                    value={session.name}
+                                                    onChange={(e) => updateSession(index, { name: e.target.value })}
+                                                    className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                                                />
+                                            </td>
+                                            <td className="px-4 py-2">
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    step="0.1"
+                                                    value={displayedWeight(index)}
+                                                    disabled={weighting !== 'custom'}
+                                                    onChange={(e) => updateSession(index, { weight: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                                    className="w-full px-2 py-1 border border-gray-300 rounded-md disabled:bg-gray-100"
+                                                />
+                                            </td>
+                                            <td className="px-4 py-2">{answered}</td>
+                                            {seedQuestions.length > 0 && (seedScores[index] ? (
+                                                <>
+                                                    <td className={`px-4 py-2 ${seedScores[index]!.calibration < calibrationCutoff ? 'text-red-600' : ''}`}>
+                                                        {seedScores[index]!.calibration.toPrecision(2)}
+                                                    </td>
+                                                    <td className="px-4 py-2">{seedScores[index]!.information.toFixed(2)}</td>
+                                                </>
+                                            ) : (
+                                                <td colSpan={2} className="px-4 py-2 text-gray-400">No seed answers</td>
+                                            ))}
+                                            <td className="px-4 py-2">
+                                                <button
+                                                    onClick={() => removeSession(index)}
+                                                    className="text-red-600 hover:text-red-800 text-sm font-medium"
+                                                    title="Remove session"
+                                                >
+                                                    Remove
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </>
+                )}
+            </div>
+
+            {selectedPooled && (
+                <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+                    <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                        <h2 className="text-xl font-semibold text-gray-800">Pooled Distributions</h2>
+                        <div className="flex items-center gap-3">
+                            <select
+                                value={selectedPooled.scenario.id}
+                                onChange={(e) => setSelectedScenarioId(e.target.value)}
+                                className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                            >
+                                {pooledScenarios.map(p => (
+                                    <option key={p.scenario.id} value={p.scenario.id}>
+                                        {p.scenario.id} ({p.scenario.scenario_group}, {p.arms[REFERENCE_ARM.id].contributions.length} experts)
+                                    </option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={() => handleDownload('pooled')}
+                                className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-green-700 bg-green-100 hover:bg-green-200"
+                            >
+                                <DownloadIcon className="w-4 h-4 mr-1" />
+                                Pooled CSV
+                            </button>
+                            <button
+                                onClick={() => handleDownload('parameters')}
+                                className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-green-700 bg-green-100 hover:bg-green-200"
+                            >
+                                <DownloadIcon className="w-4 h-4 mr-1" />
+                                Parameter Table
+                            </button>
+                        </div>
+                    </div>
+
+                    <PlotFigure options={plotOptions} />
+                    <p className="mt-2 text-xs text-gray-500">Thin lines show each expert; thick lines show the {method} pool.</p>
+
+                    <table className="mt-4 w-full text-sm text-left text-gray-600">
+                        <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                            <tr>
+                                <th className="px-4 py-2">Arm</th>
+                                <th className="px-4 py-2">Mean</th>
+                                <th className="px-4 py-2">5th</th>
+                                <th className="px-4 py-2">Median</th>
+                                <th className="px-4 py-2">95th</th>
+                                <th className="px-4 py-2">Alpha</th>
+                                <th className="px-4 py-2">Beta</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {ARMS.map(({ id: type, label }) => {
+                                const pooled = selectedPooled.arms[type].pooled;
+                                return (
+                                    <tr key={type} className="border-b">
+                                        <td className="px-4 py-2 font-medium" style={{ color: ARM_COLORS[type] }}>{label}</td>
+                                        {pooled ? (
+                                            <>
+                                                <td className="px-4 py-2">{pooled.mean.toFixed(1)}%</td>
+                                                <td className="px-4 py-2">{pooled.quantiles.p05.toFixed(1)}%</td>
+                                                <td className="px-4 py-2">{pooled.quantiles.p50.toFixed(1)}%</td>
+                                                <td className="px-4 py-2">{pooled.quantiles.p95.toFixed(1)}%</td>
+                                                <td className="px-4 py-2">{pooled.fitted ? pooled.fitted.alpha.toFixed(2) : '–'}</td>
+                                                <td className="px-4 py-2">{pooled.fitted ? pooled.fitted.beta.toFixed(2) : '–'}</td>
+                                            </>
+                                        ) : (
+                                            <td colSpan={6} className="px-4 py-2 text-gray-400">
+                                                {selectedPooled.arms[type].contributions.length === 0 ? 'No expert answered this scenario' : 'Expert supports do not overlap'}
+                                            </td>
+                                        )}
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
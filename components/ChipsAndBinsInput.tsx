@@ -0,0 +1,86 @@
+import React, { useEffect, useId, useState } from 'react';
+import { ARM_PALETTES } from '../services/projectUtils';
+import { ArmColour, ChipsAnswer } from '../types';
+
+interface ChipsAndBinsInputProps {
+    label: string;
+    value: ChipsAnswer;
+    total: number; // Chips the expert has to place
+    colour: ArmColour;
+    validate: (answer: ChipsAnswer) => string | null;
+    onCommit: (answer: ChipsAnswer) => void;
+}
+
+// Tallest a bin's stack of chips is drawn, in pixels
+const STACK_HEIGHT = 100;
+
+// Roulette elicitation: the expert places chips in bins in proportion to how likely each range is.
+// A placement that breaks a constraint is explained and left unapplied, as with exact entry.
+export const ChipsAndBinsInput: React.FC<ChipsAndBinsInputProps> = ({ label, value, total, colour, validate, onCommit }) => {
+    const [draft, setDraft] = useState<ChipsAnswer | null>(null);
+    const errorId = useId();
+    const palette = ARM_PALETTES[colour];
+
+    // A change made elsewhere, such as an undo, replaces an unapplied placement
+    const valueKey = `${value.edges.join(',')}|${value.chips.join(',')}`;
+    useEffect(() => {
+        setDraft(null);
+    }, [valueKey]);
+
+    const shown = draft ?? value;
+    const placed = shown.chips.reduce((sum, count) => sum + count, 0);
+    const error = draft === null ? null : validate(draft);
+    const chipHeight = Math.max(2, Math.floor(STACK_HEIGHT / total) - 1);
+
+    const moveChip = (bin: number, delta: 1 | -1) => {
+        const next = { ...shown, chips: shown.chips.map((count, i) => (i === bin ? count + delta : count)) };
+        if (validate(next) === null) {
+            setDraft(null);
+            onCommit(next);
+        } else {
+            setDraft(next);
+        }
+    };
+
+    return (
+        <div role="group" aria-label={label} aria-describedby={error ? errorId : undefined} className="text-xs">
+            <div className="flex items-end gap-1">
+                {shown.chips.map((count, bin) => {
+                    const range = `${shown.edges[bin]}–${shown.edges[bin + 1]}%`;
+                    return (
+                        <div key={bin} className="flex flex-1 flex-col items-center gap-0.5">
+                            <button
+                                type="button"
+                                onClick={() => moveChip(bin, 1)}
+                                disabled={placed >= total}
+                                aria-label={`Add a chip to ${range} (${count} placed)`}
+                                className="w-full rounded border border-gray-300 leading-4 hover:bg-gray-100 disabled:opacity-40"
+                            >
+                                +
+                            </button>
+                            <div className="flex w-full flex-col-reverse gap-px" style={{ height: `${STACK_HEIGHT}px` }} aria-hidden="true">
+                                {Array.from({ length: count }, (_, i) => (
+                                    <div key={i} className={`w-full rounded-sm ${palette.range}`} style={{ height: `${chipHeight}px` }} />
+                                ))}
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => moveChip(bin, -1)}
+                                disabled={count === 0}
+                                aria-label={`Remove a chip from ${range} (${count} placed)`}
+                                className="w-full rounded border border-gray-300 leading-4 hover:bg-gray-100 disabled:opacity-40"
+                            >
+                                −
+                            </button>
+                            <span className="text-gray-500">{shown.edges[bin]}</span>
+                        </div>
+                    );
+                })}
+            </div>
+            <div className={`mt-1 ${placed === total ? 'text-gray-600' : 'text-amber-700'}`} aria-live="polite">
+                {placed} of {total} chips placed
+            </div>
+            {error && <div id={errorId} role="alert" className="mt-1 text-red-600">{error}</div>}
+        </div>
+    );
+};
@@ -1,15 +1,73 @@
 
-import React, { useRef } from 'react';
+import React, { useRef, useState } from 'react';
 import { UploadIcon } from './icons/UploadIcon';
 import { DownloadIcon } from './icons/DownloadIcon';
+import { SavedSessionInfo } from '../services/persistenceUtils';
+import { PROTOCOL_LABELS } from '../services/protocolUtils';
+import { DEFAULT_SAMPLE_SEED, DEFAULT_SAMPLE_SIZE, SampleExportFormat } from '../services/sampleExportUtils';
+import { ExpertIdentity } from '../services/sessionFileUtils';
+import { ElicitationProtocol } from '../types';
 
 interface ControlPanelProps {
     onUpload: (file: File) => void;
     onDownload: () => void;
+    onDownloadSession: () => void;
+    auditEventCount: number;
+    onDownloadAuditLog: (format: 'csv' | 'json') => void;
+    onDownloadSamples: (format: SampleExportFormat, sampleSize: number, seed: number) => void;
+    expert: ExpertIdentity;
+    onExpertChange: (expert: ExpertIdentity) => void;
+    protocol: ElicitationProtocol;
+    onProtocolChange: (protocol: ElicitationProtocol) => void;
+    sessions: SavedSessionInfo[];
+    activeSessionId: string | null;
+    autosaveError: string | null;
+    onSwitchSession: (sessionId: string) => void;
+    onNewSession: () => void;
+    onRenameSession: (sessionId: string, name: string) => void;
+    onDeleteSession: (sessionId: string) => void;
+    onGenerateScenarios: () => void;
 }
 
-export const ControlPanel: React.FC<ControlPanelProps> = ({ onUpload, onDownload }) => {
+export const ControlPanel: React.FC<ControlPanelProps> = ({
+    onUpload,
+    onDownload,
+    onDownloadSession,
+    auditEventCount,
+    onDownloadAuditLog,
+    onDownloadSamples,
+    expert,
+    onExpertChange,
+    protocol,
+    onProtocolChange,
+    sessions,
+    activeSessionId,
+    autosaveError,
+    onSwitchSession,
+    onNewSession,
+    onRenameSession,
+    onDeleteSession,
+    onGenerateScenarios
+}) => {
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const [sampleSize, setSampleSize] = useState(DEFAULT_SAMPLE_SIZE);
+    const [sampleSeed, setSampleSeed] = useState(DEFAULT_SAMPLE_SEED);
+    const activeSession = sessions.find(s => s.id === activeSessionId) ?? null;
+    const otherSessions = sessions.filter(s => s.id !== activeSessionId);
+
+    const handleRenameClick = () => {
+        if (!activeSession) return;
+        const name = window.prompt('Rename this session:', activeSession.name);
+        if (name && name.trim()) {
+            onRenameSession(activeSession.id, name.trim());
+        }
+    };
+
+    const handleDeleteClick = (session: SavedSessionInfo) => {
+        if (window.confirm(`Delete the saved session "${session.name}" from this browser?`)) {
+            onDeleteSession(session.id);
+        }
+    };
 
     const handleUploadClick = () => {
         fileInputRef.current?.click();
@@ -27,6 +85,75 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ onUpload, onDownload
     return (
         <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 h-full">
              <h2 className="text-lg font-semibold mb-4 text-gray-800">Session Management</h2>
+            <div className="mb-4 grid grid-cols-1 gap-2 text-sm">
+                <label className="flex flex-col text-gray-700">
+                    <span className="mb-1">Expert name</span>
+                    <input
+                        type="text"
+                        value={expert.name}
+                        onChange={(e) => onExpertChange({ ...expert, name: e.target.value })}
+                        className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                </label>
+                <label className="flex flex-col text-gray-700">
+                    <span className="mb-1">Affiliation</span>
+                    <input
+                        type="text"
+                        value={expert.affiliation}
+                        onChange={(e) => onExpertChange({ ...expert, affiliation: e.target.value })}
+                        className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                </label>
+                <label className="flex flex-col text-gray-700">
+                    <span className="mb-1">Answer with</span>
+                    <select
+                        value={protocol}
+                        onChange={(e) => onProtocolChange(e.target.value as ElicitationProtocol)}
+                        className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        {(Object.keys(PROTOCOL_LABELS) as ElicitationProtocol[]).map(option => (
+                            <option key={option} value={option}>{PROTOCOL_LABELS[option]}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+            <div className="mb-4 text-sm">
+                <label htmlFor="session-picker" className="block text-gray-700 mb-1">Current session</label>
+                <select
+                    id="session-picker"
+                    value={activeSessionId ?? ''}
+                    onChange={(e) => onSwitchSession(e.target.value)}
+                    disabled={!activeSession}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    {!activeSession && <option value="">Not saved</option>}
+                    {sessions.map(session => (
+                        <option key={session.id} value={session.id}>{session.name}</option>
+                    ))}
+                </select>
+                <div className="flex gap-3 mt-2">
+                    <button onClick={onNewSession} className="text-blue-600 hover:text-blue-800 font-medium">New</button>
+                    <button onClick={handleRenameClick} disabled={!activeSession} className="text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50">Rename</button>
+                </div>
+                {autosaveError ? (
+                    <p className="mt-2 text-xs text-red-600">{autosaveError}</p>
+                ) : activeSession && (
+                    <p className="mt-2 text-xs text-gray-500">Saved automatically at {new Date(activeSession.updatedAt).toLocaleTimeString()}</p>
+                )}
+                {otherSessions.length > 0 && (
+                    <details className="mt-2 text-xs text-gray-600">
+                        <summary className="cursor-pointer">Other saved sessions ({otherSessions.length})</summary>
+                        <ul className="mt-1 space-y-1">
+                            {otherSessions.map(session => (
+                                <li key={session.id} className="flex items-center justify-between gap-2">
+                                    <span className="truncate" title={`Last saved ${new Date(session.updatedAt).toLocaleString()}`}>{session.name}</span>
+                                    <button onClick={() => handleDeleteClick(session)} className="text-red-600 hover:text-red-800">Delete</button>
+                                </li>
+                            ))}
+                        </ul>
+                    </details>
+                )}
+            </div>
             <div className="flex flex-col gap-3">
                 <button
                     onClick={handleUploadClick}
@@ -39,9 +166,15 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ onUpload, onDownload
                     type="file"
                     ref={fileInputRef}
                     onChange={handleFileChange}
-                    accept=".csv"
+                    accept=".csv,.json"
                     className="hidden"
                 />
+                <button
+                    onClick={onGenerateScenarios}
+                    className="inline-flex items-center justify-center px-4 py-2 border border-blue-200 text-sm font-medium rounded-md text-blue-700 bg-white hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+                >
+                    Generate Scenarios
+                </button>
                 <button
                     onClick={onDownload}
                     className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-green-700 bg-green-100 hover:bg-green-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors"
@@ -49,6 +182,55 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ onUpload, onDownload
                     <DownloadIcon className="w-5 h-5 mr-2" />
                     Download Results
                 </button>
+                <button
+                    onClick={onDownloadSession}
+                    className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-green-700 bg-green-100 hover:bg-green-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors"
+                >
+                    <DownloadIcon className="w-5 h-5 mr-2" />
+                    Download Session (JSON)
+                </button>
+                <div className="flex items-center justify-between text-sm text-gray-700">
+                    <span>Audit log ({auditEventCount} changes)</span>
+                    <span className="flex gap-3">
+                        <button onClick={() => onDownloadAuditLog('csv')} disabled={auditEventCount === 0} className="text-green-700 hover:text-green-900 font-medium disabled:opacity-50">CSV</button>
+                        <button onClick={() => onDownloadAuditLog('json')} disabled={auditEventCount === 0} className="text-green-700 hover:text-green-900 font-medium disabled:opacity-50">JSON</button>
+                    </span>
+                </div>
+                <div className="text-sm text-gray-700">
+                    <div className="flex items-center justify-between">
+                        <span>Monte Carlo samples</span>
+                        <span className="flex gap-3">
+                            <button onClick={() => onDownloadSamples('csv', sampleSize, sampleSeed)} className="text-green-700 hover:text-green-900 font-medium">CSV</button>
+                            <button onClick={() => onDownloadSamples('json', sampleSize, sampleSeed)} className="text-green-700 hover:text-green-900 font-medium">JSON</button>
+                        </span>
+                    </div>
+                    <div className="mt-1 flex gap-2">
+                        <label className="flex flex-1 flex-col text-xs text-gray-500">
+                            Samples per arm
+                            <input
+                                type="number"
+                                min="1"
+                                step="1"
+                                value={sampleSize}
+                                onChange={(e) => setSampleSize(parseInt(e.target.value, 10))}
+                                className="mt-0.5 px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-700"
+                            />
+                        </label>
+                        <label className="flex flex-1 flex-col text-xs text-gray-500">
+                            Seed
+                            <input
+                                type="number"
+                                step="1"
+                                value={sampleSeed}
+                                onChange={(e) => setSampleSeed(parseInt(e.target.value, 10))}
+                                className="mt-0.5 px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-700"
+                            />
+                        </label>
+                    </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                    Results are a CSV for spreadsheets and modelling. The JSON session also keeps your name, timestamps, the defaults used and your settings. Either can be uploaded again.
+                </p>
             </div>
         </div>
     );
@@ -0,0 +1,129 @@
+import * as Plot from '@observablehq/plot';
+import React, { useMemo } from 'react';
+import { DEFAULT_SLIDER_RANGE, getEmptyUserScenario, hasScenarioUserEdits } from '../services/distributionUtils';
+import { fitScenarioDistribution, getDensityCurve } from '../services/fittingUtils';
+import { ARM_PALETTES, ARMS } from '../services/projectUtils';
+import { ArmId, FittedScenarioDistribution, Scenario, UserElicitationData } from '../types';
+import { PlotFigure } from './PlotFigure';
+
+interface DistributionChartProps {
+    scenarios: Scenario[];
+    selectedScenarioId: string | null;
+    userElicitationData: UserElicitationData;
+}
+
+interface CurvePoint {
+    key: string;
+    x: number;
+    density: number;
+}
+
+const ARM_COLORS: Record<ArmId, string> = Object.fromEntries(ARMS.map(arm => [arm.id, ARM_PALETTES[arm.colour].hex]));
+
+const emptyCurves = (): Record<ArmId, CurvePoint[]> => Object.fromEntries(ARMS.map(arm => [arm.id, []]));
+
+const CHART_HEIGHT = 260;
+
+export const DistributionChart: React.FC<DistributionChartProps> = ({
+    scenarios,
+    selectedScenarioId,
+    userElicitationData
+}) => {
+    const curves = useMemo(() => {
+        const selected = emptyCurves();
+        const faded = emptyCurves();
+        if (!selectedScenarioId) {
+            return { selected, faded, xMax: DEFAULT_SLIDER_RANGE.max };
+        }
+
+        const fittedById = new Map<string, FittedScenarioDistribution>();
+        let xMax = DEFAULT_SLIDER_RANGE.max;
+        for (const scenario of scenarios) {
+            const userDist = userElicitationData[scenario.id];
+            const isSelected = scenario.id === selectedScenarioId;
+            // Untouched scenarios all share the default curve, so only edited ones are worth comparing against
+            if (!isSelected && !(userDist && hasScenarioUserEdits(userDist))) {
+                continue;
+            }
+            const fitted = fitScenarioDistribution(userDist || getEmptyUserScenario());
+            fittedById.set(scenario.id, fitted);
+            xMax = Math.max(xMax, ...ARMS.map(arm => fitted[arm.id].upper));
+        }
+
+        fittedById.forEach((fitted, scenarioId) => {
+            ARMS.forEach(({ id: type }) => {
+                const points = getDensityCurve(fitted[type], DEFAULT_SLIDER_RANGE.min, xMax).map(point => ({
+                    key: `${scenarioId}-${type}`,
+                    ...point
+                }));
+                if (scenarioId === selectedScenarioId) {
+                    selected[type] = points;
+                } else {
+                    faded[type].push(...points);
+                }
+            });
+        });
+
+        return { selected, faded, xMax };
+    }, [scenarios, selectedScenarioId, userElicitationData]);
+
+    const plotOptions = useMemo(() => {
+        const marks: Plot.Markish[] = [Plot.ruleY([0])];
+        ARMS.forEach(({ id: type }) => {
+            marks.push(Plot.lineY(curves.faded[type], {
+                x: 'x',
+                y: 'density',
+                z: 'key',
+                stroke: ARM_COLORS[type],
+                strokeOpacity: 0.2,
+                strokeWidth: 1
+            }));
+        });
+        ARMS.forEach(({ id: type }) => {
+            marks.push(Plot.areaY(curves.selected[type], {
+                x: 'x',
+                y: 'density',
+                fill: ARM_COLORS[type],
+                fillOpacity: 0.1
+            }));
+            marks.push(Plot.lineY(curves.selected[type], {
+                x: 'x',
+                y: 'density',
+                stroke: ARM_COLORS[type],
+                strokeWidth: 2.5
+            }));
+        });
+
+        return {
+            height: CHART_HEIGHT,
+            marginLeft: 48,
+            x: { label: 'Yield loss (%)', domain: [DEFAULT_SLIDER_RANGE.min, curves.xMax] },
+            y: { label: 'Density', grid: true },
+            marks
+        };
+    }, [curves]);
+
+    return (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+            <h2 className="text-xl font-semibold text-gray-800 mb-2">Probability Density</h2>
+            {selectedScenarioId ? (
+                <p className="text-sm text-gray-600 mb-4">Scenario {selectedScenarioId}</p>
+            ) : (
+                <p className="text-sm text-gray-500 mb-4">Select a scenario to see its distributions.</p>
+            )}
+            <PlotFigure options={plotOptions} />
+            <div className="mt-4 flex flex-wrap gap-4 text-xs text-gray-600">
+                {ARMS.map(arm => (
+                    <span key={arm.id} className="flex items-center gap-1">
+                        <span className="inline-block w-4 h-0.5" style={{ backgroundColor: ARM_COLORS[arm.id] }} />
+                        {arm.label}
+                    </span>
+                ))}
+                <span className="flex items-center gap-1">
+                    <span className="inline-block w-4 h-0.5 bg-gray-400 opacity-40" />
+                    Other edited scenarios in this group
+                </span>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,214 @@
+import React, { useMemo, useState } from 'react';
+import { BenefitCoupling } from '../services/benefitUtils';
+import { downloadFile } from '../services/downloadUtils';
+import { EconomicInputs, evaluateSprayEconomics, generateEconomicsCSV, SprayRecommendation, summariseEconomicsByGroup } from '../services/economicsUtils';
+import { COMPARISON_ARMS, getArmConfig, REFERENCE_ARM } from '../services/projectUtils';
+import { ArmId, Scenario, UserElicitationData } from '../types';
+import { DownloadIcon } from './icons/DownloadIcon';
+
+interface EconomicsPanelProps {
+    scenarios: Scenario[];
+    userElicitationData: UserElicitationData;
+    yieldColumn: string | null;
+    inputs: EconomicInputs;
+    benefitCoupling: BenefitCoupling;
+    onInputsChange: (inputs: EconomicInputs) => void;
+}
+
+const RECOMMENDATION_STYLES: Record<SprayRecommendation, { label: string; className: string }> = {
+    'spray': { label: 'Spray', className: 'bg-green-100 text-green-800' },
+    'no-spray': { label: "Don't spray", className: 'bg-red-100 text-red-800' },
+    'marginal': { label: 'Marginal', className: 'bg-yellow-100 text-yellow-800' }
+};
+
+const INPUT_FIELDS: { key: keyof EconomicInputs; label: string; unit: string; step: string }[] = [
+    { key: 'grainPrice', label: 'Grain price', unit: '$/t', step: '10' },
+    { key: 'chemicalCost', label: 'Chemical cost', unit: '$/ha', step: '1' },
+    { key: 'applicationCost', label: 'Application cost', unit: '$/ha', step: '1' },
+    { key: 'defaultYield', label: 'Yield (if no yield column)', unit: 't/ha', step: '0.1' }
+];
+
+const formatDollars = (value: number): string => {
+    if (!Number.isFinite(value)) return '–';
+    const sign = value < 0 ? '-' : '';
+    return `${sign}$${Math.abs(value).toFixed(0)}`;
+};
+
+export const EconomicsPanel: React.FC<EconomicsPanelProps> = ({
+    scenarios,
+    userElicitationData,
+    yieldColumn,
+    inputs,
+    benefitCoupling,
+    onInputsChange
+}) => {
+    const groups = useMemo(() => Array.from(new Set(scenarios.map(s => s.scenario_group))), [scenarios]);
+    const [detailGroup, setDetailGroup] = useState<string | null>(null);
+    const activeGroup = detailGroup && groups.includes(detailGroup) ? detailGroup : groups[0] ?? null;
+    const [armId, setArmId] = useState<ArmId>(COMPARISON_ARMS[0].id);
+    const arm = getArmConfig(armId);
+
+    const economics = useMemo(
+        () => evaluateSprayEconomics(scenarios, userElicitationData, yieldColumn, inputs, benefitCoupling, armId),
+        [scenarios, userElicitationData, yieldColumn, inputs, benefitCoupling, armId]
+    );
+    const groupSummaries = useMemo(() => summariseEconomicsByGroup(scenarios, economics), [scenarios, economics]);
+
+    const economicsById = useMemo(() => new Map(economics.map(e => [e.scenario.id, e])), [economics]);
+    const groupScenarios = scenarios.filter(s => s.scenario_group === activeGroup);
+
+    const handleDownload = () => {
+        try {
+            const filename = COMPARISON_ARMS.length > 1 ? `spray_economics_${arm.csvPrefix}.csv` : 'spray_economics.csv';
+            downloadFile(generateEconomicsCSV(scenarios, economics, inputs), filename, 'text/csv;charset=utf-8;');
+        } catch (error) {
+            console.error('Failed to generate economics CSV:', error);
+            alert('Error generating file for download.');
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-8">
+            <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+                <h2 className="text-xl font-semibold text-gray-800 mb-2">Spray Decision Inputs</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                    {yieldColumn
+                        ? <>Yields are read from the <span className="font-semibold">{yieldColumn}</span> column.</>
+                        : 'No yield column was detected, so every scenario uses the yield entered below.'}
+                    {' '}Net return = yield saved × grain price − applications × (chemical + application cost),
+                    compared with {REFERENCE_ARM.label.toLowerCase()}.
+                </p>
+                {COMPARISON_ARMS.length > 1 && (
+                    <label className="flex items-center gap-2 text-sm text-gray-700 mb-4">
+                        <span>Program</span>
+                        <select
+                            value={armId}
+                            onChange={(e) => setArmId(e.target.value)}
+                            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            {COMPARISON_ARMS.map(a => (
+                                <option key={a.id} value={a.id}>
+                                    {a.label} ({a.applications} application{a.applications === 1 ? '' : 's'})
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                    {INPUT_FIELDS.map(field => (
+                        <label key={field.key} className="flex flex-col text-sm text-gray-700">
+                            <span className="mb-1">{field.label} ({field.unit})</span>
+                            <input
+                                type="number"
+                                min="0"
+                                step={field.step}
+                                value={inputs[field.key]}
+                                onChange={(e) => onInputsChange({ ...inputs, [field.key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                        </label>
+                    ))}
+                </div>
+            </div>
+
+            <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xl font-semibold text-gray-800">Group Summary</h2>
+                    <button
+                        onClick={handleDownload}
+                        disabled={economics.length === 0}
+                        className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-green-700 bg-green-100 hover:bg-green-200 disabled:opacity-50"
+                    >
+                        <DownloadIcon className="w-4 h-4 mr-1" />
+                        Economics CSV
+                    </button>
+                </div>
+                <table className="w-full text-sm text-left text-gray-600">
+                    <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                        <tr>
+                            <th className="px-4 py-2">Group</th>
+                            <th className="px-4 py-2">Elicited</th>
+                            <th className="px-4 py-2">Spray</th>
+                            <th className="px-4 py-2">Marginal</th>
+                            <th className="px-4 py-2">Don't spray</th>
+                            <th className="px-4 py-2">Mean net return ($/ha)</th>
+                            <th className="px-4 py-2">Range ($/ha)</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {groupSummaries.map(summary => (
+                            <tr
+                                key={summary.group}
+                                onClick={() => setDetailGroup(summary.group)}
+                                className={`border-b cursor-pointer ${summary.group === activeGroup ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                            >
+                                <td className="px-4 py-2 font-medium text-gray-800">{summary.group}</td>
+                                <td className="px-4 py-2">{summary.evaluated}</td>
+                                <td className="px-4 py-2">{summary.spray}</td>
+                                <td className="px-4 py-2">{summary.marginal}</td>
+                                <td className="px-4 py-2">{summary.noSpray}</td>
+                                <td className="px-4 py-2">{formatDollars(summary.meanNetReturn)}</td>
+                                <td className="px-4 py-2">
+                                    {summary.evaluated > 0 ? `${formatDollars(summary.minNetReturn)} to ${formatDollars(summary.maxNetReturn)}` : '–'}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {activeGroup && (
+                <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+                    <h2 className="text-xl font-semibold text-gray-800 mb-4">Scenarios in {activeGroup}</h2>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left text-gray-600">
+                            <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                                <tr>
+                                    <th className="px-4 py-2">Scenario</th>
+                                    <th className="px-4 py-2">Yield (t/ha)</th>
+                                    <th className="px-4 py-2">Break-even saving</th>
+                                    <th className="px-4 py-2">Expected net return</th>
+                                    <th className="px-4 py-2">90% range</th>
+                                    <th className="px-4 py-2">P(break even)</th>
+                                    <th className="px-4 py-2">Recommendation</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {groupScenarios.map((scenario, rowIndex) => {
+                                    const e = economicsById.get(scenario.id);
+                                    return (
+                                        <tr key={`${scenario.id}-${rowIndex}`} className="border-b">
+                                            <td className="px-4 py-2 font-medium text-gray-800">{scenario.id}</td>
+                                            {e ? (
+                                                <>
+                                                    <td className="px-4 py-2">{e.yieldValue.toFixed(2)}{!e.yieldFromScenario && ' *'}</td>
+                                                    <td className="px-4 py-2">{Number.isFinite(e.breakEvenBenefit) ? `${e.breakEvenBenefit.toFixed(1)}%` : '–'}</td>
+                                                    <td className="px-4 py-2">{formatDollars(e.expectedNetReturn)}/ha</td>
+                                                    <td className="px-4 py-2">{formatDollars(e.netReturnP05)} to {formatDollars(e.netReturnP95)}</td>
+                                                    <td className="px-4 py-2">{Math.round(e.probabilityBreakEven * 100)}%</td>
+                                                    <td className="px-4 py-2">
+                                                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${RECOMMENDATION_STYLES[e.recommendation].className}`}>
+                                                            {RECOMMENDATION_STYLES[e.recommendation].label}
+                                                        </span>
+                                                    </td>
+                                                </>
+                                            ) : (
+                                                <td colSpan={6} className="px-4 py-2 text-gray-400">Not yet elicited</td>
+                                            )}
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                    {economics.some(e => !e.yieldFromScenario) && (
+                        <p className="mt-2 text-xs text-gray-500">* Uses the yield entered above because the scenario has no yield value.</p>
+                    )}
+                    <p className="mt-2 text-xs text-gray-500">
+                        Spray when the expected net return is positive and spraying breaks even at least half the time; don't spray when both are against it; otherwise the decision is marginal.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
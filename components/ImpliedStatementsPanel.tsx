@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import { BenefitCoupling } from '../services/benefitUtils';
+import { getEmptyUserScenario, hasScenarioUserEdits } from '../services/distributionUtils';
+import { describeImpliedStatements } from '../services/feedbackUtils';
+import { ARM_PALETTES, getArmConfig } from '../services/projectUtils';
+import { UserElicitationData } from '../types';
+
+interface ImpliedStatementsPanelProps {
+    selectedScenarioId: string | null;
+    userElicitationData: UserElicitationData;
+    benefitThreshold: number;
+    benefitCoupling: BenefitCoupling;
+}
+
+export const ImpliedStatementsPanel: React.FC<ImpliedStatementsPanelProps> = ({
+    selectedScenarioId,
+    userElicitationData,
+    benefitThreshold,
+    benefitCoupling
+}) => {
+    const userScenario = selectedScenarioId ? userElicitationData[selectedScenarioId] : undefined;
+
+    const statements = useMemo(
+        () => selectedScenarioId
+            ? describeImpliedStatements(selectedScenarioId, userScenario ?? getEmptyUserScenario(), benefitThreshold, benefitCoupling)
+            : [],
+        [selectedScenarioId, userScenario, benefitThreshold, benefitCoupling]
+    );
+
+    const sections = [
+        { kind: 'loss', title: 'Yield loss' },
+        { kind: 'benefit', title: 'Spray benefit' },
+    ] as const;
+
+    return (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+            <h2 className="text-xl font-semibold text-gray-800 mb-2">What Your Answers Say</h2>
+            {!selectedScenarioId ? (
+                <p className="text-sm text-gray-500">Select a scenario to see what its distributions imply.</p>
+            ) : (
+                <>
+                    <p className="text-sm text-gray-600 mb-3">
+                        For scenario {selectedScenarioId}, you are saying there is:
+                        {!(userScenario && hasScenarioUserEdits(userScenario)) && ' (these are the defaults until you edit it)'}
+                    </p>
+                    {sections.map(({ kind, title }) => (
+                        <div key={kind} className="mb-3 last:mb-0">
+                            <h3 className="text-xs font-semibold text-gray-700 uppercase mb-1">{title}</h3>
+                            <ul className="space-y-1 text-sm">
+                                {statements.filter(statement => statement.kind === kind).map(statement => (
+                                    <li key={statement.text} className="flex gap-2">
+                                        <span
+                                            className="mt-1.5 inline-block w-2 h-2 rounded-full flex-shrink-0"
+                                            style={{ backgroundColor: ARM_PALETTES[getArmConfig(statement.armId).colour].hex }}
+                                        />
+                                        <span className="text-gray-800">{statement.text}.</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+                    <p className="mt-3 text-xs text-gray-500">
+                        If a statement does not match your intuition, adjust that arm in the table and check again.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import { CSVTable, ImportIssue, validateCSVTable } from '../services/csvUtils';
+
+interface ImportValidationModalProps {
+    fileName: string;
+    table: CSVTable;
+    onImport: (table: CSVTable) => void;
+    onCancel: () => void;
+}
+
+const SEVERITY_STYLES: Record<ImportIssue['severity'], string> = {
+    error: 'text-red-700',
+    warning: 'text-amber-700',
+};
+
+// Mount with key={fileName} so each file starts from its own rows
+export const ImportValidationModal: React.FC<ImportValidationModalProps> = ({
+    fileName,
+    table,
+    onImport,
+    onCancel
+}) => {
+    // Inline fixes are made to a copy of the rows, re-checked on every change
+    const [rows, setRows] = useState<Record<string, string>[]>(() => table.rows.map(row => ({ ...row })));
+
+    // Rows flagged when the file was read, with their flagged columns, stay listed while they are fixed
+    const [initiallyFlagged] = useState(() => {
+        const columnsByRow = new Map<number, string[]>();
+        validateCSVTable(table).forEach(issue => {
+            columnsByRow.set(issue.rowIndex, [...(columnsByRow.get(issue.rowIndex) ?? []), ...issue.columns]);
+        });
+        return columnsByRow;
+    });
+
+    // Edited cells are trimmed as the file's cells were, apart from comments
+    const cleanRows = useMemo(() => rows.map(row => Object.fromEntries(
+        Object.entries<string>(row).map(([column, value]) => [column, column === 'comment' ? value : value.trim()])
+    )), [rows]);
+    const issues = useMemo(() => validateCSVTable({ headers: table.headers, rows: cleanRows }), [table, cleanRows]);
+
+    const issuesByRow = new Map<number, ImportIssue[]>();
+    issues.forEach(issue => {
+        issuesByRow.set(issue.rowIndex, [...(issuesByRow.get(issue.rowIndex) ?? []), issue]);
+    });
+    const errorRows = new Set(issues.filter(issue => issue.severity === 'error').map(issue => issue.rowIndex));
+    const warningRows = new Set(issues.filter(issue => issue.severity === 'warning').map(issue => issue.rowIndex));
+    const validRows = cleanRows.filter((_, index) => !errorRows.has(index));
+    // A fix can also flag another row, e.g. by duplicating a later row's scenario_id
+    const flaggedRowIndices = Array.from(new Set([...initiallyFlagged.keys(), ...issuesByRow.keys()])).sort((a, b) => a - b);
+
+    const updateCell = (rowIndex: number, column: string, value: string) => {
+        setRows(prev => prev.map((row, i) => (i === rowIndex ? { ...row, [column]: value } : row)));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+            <div className="relative top-10 mx-auto p-5 border w-full max-w-4xl shadow-lg rounded-md bg-white">
+                <h3 className="text-lg font-medium text-gray-900">Check {fileName}</h3>
+                <p className="mt-1 text-sm text-gray-600">
+                    {rows.length} rows: {errorRows.size} with errors, which cannot be imported, and {warningRows.size} with warnings.
+                    Fix values below, or import only the rows without errors.
+                </p>
+
+                <div className="mt-4 max-h-[60vh] overflow-y-auto divide-y border rounded-md">
+                    {issues.length === 0 && (
+                        <p className="p-4 text-sm text-green-700">Every row is now valid.</p>
+                    )}
+                    {flaggedRowIndices.map(rowIndex => {
+                        const rowIssues = issuesByRow.get(rowIndex) ?? [];
+                        const columns = Array.from(new Set([...(initiallyFlagged.get(rowIndex) ?? []), ...rowIssues.flatMap(issue => issue.columns)]));
+                        const background = errorRows.has(rowIndex) ? 'bg-red-50' : warningRows.has(rowIndex) ? 'bg-amber-50' : 'bg-green-50';
+                        return (
+                            <div key={rowIndex} className={`p-3 text-sm ${background}`}>
+                                <div className="font-medium text-gray-800">
+                                    Row {rowIndex + 2}{rows[rowIndex].scenario_id ? `, scenario ${rows[rowIndex].scenario_id}` : ''}
+                                    {rows[rowIndex].scenario_group ? ` (${rows[rowIndex].scenario_group})` : ''}
+                                    {rowIssues.length === 0 && <span className="ml-2 font-normal text-green-700">Resolved</span>}
+                                </div>
+                                <ul className="mt-1 list-disc list-inside">
+                                    {rowIssues.map((issue, index) => (
+                                        <li key={index} className={SEVERITY_STYLES[issue.severity]}>
+                                            <span className="font-semibold">{issue.severity === 'error' ? 'Error' : 'Warning'}:</span> {issue.message}
+                                        </li>
+                                    ))}
+                                </ul>
+                                <div className="mt-2 flex flex-wrap gap-3">
+                                    {columns.map(column => (
+                                        <label key={column} className="flex flex-col text-xs text-gray-600">
+                                            <span>{column}</span>
+                                            <input
+                                                type="text"
+                                                value={rows[rowIndex][column] ?? ''}
+                                                onChange={(e) => updateCell(rowIndex, column, e.target.value)}
+                                                className="w-28 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                                            />
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="flex items-center justify-end space-x-3 mt-6 pt-4 border-t">
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-2 bg-gray-300 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-400 focus:outline-none focus:ring-2 focus:ring-gray-300"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onImport({ headers: table.headers, rows: validRows })}
+                        disabled={validRows.length === 0}
+                        className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-300"
+                    >
+                        {errorRows.size === 0 ? `Import all ${rows.length} rows` : `Import ${validRows.length} valid rows`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
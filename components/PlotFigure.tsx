@@ -0,0 +1,37 @@
+import * as Plot from '@observablehq/plot';
+import React, { useEffect, useRef, useState } from 'react';
+
+interface PlotFigureProps {
+    options: Omit<Plot.PlotOptions, 'width'>;
+}
+
+// Renders an Observable Plot figure that tracks the width of its container
+export const PlotFigure: React.FC<PlotFigureProps> = ({ options }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [width, setWidth] = useState(360);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        const observer = new ResizeObserver(entries => {
+            const entry = entries[0];
+            if (entry && entry.contentRect.width > 0) {
+                setWidth(Math.max(240, Math.floor(entry.contentRect.width)));
+            }
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        const chart = Plot.plot({ ...options, width });
+        container.replaceChildren(chart);
+        return () => chart.remove();
+    }, [options, width]);
+
+    return <div ref={containerRef} className="w-full" />;
+};
@@ -0,0 +1,255 @@
+import React, { useEffect, useState } from 'react';
+import {
+    countDesignRows,
+    DESIGN_TYPE_LABELS,
+    DesignFactor,
+    DesignType,
+    generateDesign,
+    inferDesignFactors
+} from '../services/designUtils';
+import { FactorOrdering, Scenario } from '../types';
+
+interface ScenarioDesignModalProps {
+    isOpen: boolean;
+    scenarios: Scenario[];
+    factorOrderings: FactorOrdering[];
+    onApply: (generated: Scenario[], mode: 'replace' | 'append') => void;
+    onCancel: () => void;
+}
+
+// Levels are edited as comma-separated text
+interface FactorDraft {
+    column: string;
+    levelsText: string;
+    reference: string;
+}
+
+const PREVIEW_ROWS = 12;
+
+const parseLevels = (text: string): string[] => text.split(',').map(level => level.trim()).filter(level => level !== '');
+
+const toDraft = (factor: DesignFactor): FactorDraft => ({
+    column: factor.column,
+    levelsText: factor.levels.join(', '),
+    reference: factor.reference,
+});
+
+export const ScenarioDesignModal: React.FC<ScenarioDesignModalProps> = ({
+    isOpen,
+    scenarios,
+    factorOrderings,
+    onApply,
+    onCancel
+}) => {
+    const [drafts, setDrafts] = useState<FactorDraft[]>([]);
+    const [designType, setDesignType] = useState<DesignType>('one-at-a-time');
+    const [groupName, setGroupName] = useState('');
+    const [sampleSize, setSampleSize] = useState(20);
+    const [seed, setSeed] = useState(1);
+
+    // Start from the factors the current scenarios already use
+    useEffect(() => {
+        if (isOpen) {
+            setDrafts(inferDesignFactors(scenarios, factorOrderings).map(toDraft));
+        }
+    }, [isOpen, scenarios, factorOrderings]);
+
+    const factors: DesignFactor[] = drafts.map(draft => ({
+        column: draft.column,
+        levels: parseLevels(draft.levelsText),
+        reference: draft.reference,
+    }));
+    const options = { type: designType, groupName, sampleSize, seed };
+
+    if (!isOpen) return null;
+
+    let preview: { generated: Scenario[]; error: string | null };
+    try {
+        preview = { generated: generateDesign(factors, options, scenarios), error: null };
+    } catch (error) {
+        preview = { generated: [], error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const existingIds = new Set(scenarios.map(s => s.id));
+    const newCombinations = new Set(preview.generated.filter(s => !existingIds.has(s.id)).map(s => s.id)).size;
+    const columns = factors.map(factor => factor.column.trim());
+
+    const updateDraft = (index: number, changes: Partial<FactorDraft>) => {
+        setDrafts(prev => prev.map((draft, i) => {
+            if (i !== index) return draft;
+            const updated = { ...draft, ...changes };
+            // Keep the reference pointing at a level that still exists
+            const levels = parseLevels(updated.levelsText);
+            if (!levels.includes(updated.reference)) {
+                updated.reference = levels[0] ?? '';
+            }
+            return updated;
+        }));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+            <div className="relative top-10 mx-auto p-5 border w-full max-w-4xl shadow-lg rounded-md bg-white">
+                <h3 className="text-lg font-medium text-gray-900 mb-4">Generate Scenarios</h3>
+
+                <div className="space-y-2 max-h-72 overflow-y-auto">
+                    <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-700 uppercase">
+                        <span className="col-span-3">Factor column</span>
+                        <span className="col-span-6">Levels (comma separated, in order)</span>
+                        <span className="col-span-2">Reference</span>
+                    </div>
+                    {drafts.map((draft, index) => (
+                        <div key={index} className="grid grid-cols-12 gap-2 items-center text-sm">
+                            <input
+                                type="text"
+                                value={draft.column}
+                                onChange={(e) => updateDraft(index, { column: e.target.value })}
+                                className="col-span-3 px-2 py-1 border border-gray-300 rounded-md"
+                            />
+                            <input
+                                type="text"
+                                value={draft.levelsText}
+                                onChange={(e) => updateDraft(index, { levelsText: e.target.value })}
+                                className="col-span-6 px-2 py-1 border border-gray-300 rounded-md"
+                            />
+                            <select
+                                value={draft.reference}
+                                onChange={(e) => updateDraft(index, { reference: e.target.value })}
+                                className="col-span-2 px-2 py-1 border border-gray-300 rounded-md"
+                            >
+                                {parseLevels(draft.levelsText).map(level => (
+                                    <option key={level} value={level}>{level}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))}
+                                className="col-span-1 text-red-600 hover:text-red-800 text-sm"
+                                title="Remove factor"
+                            >
+                                Remove
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <button
+                    onClick={() => setDrafts(prev => [...prev, { column: '', levelsText: '', reference: '' }])}
+                    className="mt-2 text-sm text-blue-600 hover:text-blue-800 font-medium"
+                >
+                    Add factor
+                </button>
+
+                <div className="mt-4 flex flex-wrap items-end gap-4 text-sm text-gray-700">
+                    <label className="flex flex-col">
+                        <span className="mb-1">Design</span>
+                        <select
+                            value={designType}
+                            onChange={(e) => setDesignType(e.target.value as DesignType)}
+                            className="px-3 py-2 border border-gray-300 rounded-md"
+                        >
+                            {(Object.keys(DESIGN_TYPE_LABELS) as DesignType[]).map(type => (
+                                <option key={type} value={type}>{DESIGN_TYPE_LABELS[type]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {designType !== 'one-at-a-time' && (
+                        <label className="flex flex-col">
+                            <span className="mb-1">Group name</span>
+                            <input
+                                type="text"
+                                value={groupName}
+                                placeholder={DESIGN_TYPE_LABELS[designType].toLowerCase()}
+                                onChange={(e) => setGroupName(e.target.value)}
+                                className="px-3 py-2 border border-gray-300 rounded-md"
+                            />
+                        </label>
+                    )}
+                    {(designType === 'fractional' || designType === 'latin-hypercube') && (
+                        <>
+                            <label className="flex flex-col">
+                                <span className="mb-1">Scenarios</span>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    value={sampleSize}
+                                    onChange={(e) => setSampleSize(Math.max(1, Math.round(Number(e.target.value)) || 1))}
+                                    className="w-24 px-3 py-2 border border-gray-300 rounded-md"
+                                />
+                            </label>
+                            <label className="flex flex-col">
+                                <span className="mb-1">Seed</span>
+                                <input
+                                    type="number"
+                                    value={seed}
+                                    onChange={(e) => setSeed(Math.round(Number(e.target.value)) || 0)}
+                                    className="w-24 px-3 py-2 border border-gray-300 rounded-md"
+                                />
+                            </label>
+                        </>
+                    )}
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                    One-at-a-time sweeps make a group per factor, varying it through its levels with every other factor at its reference.
+                    Rows with the same levels share a scenario_id across groups, and keep the id of any current scenario that matches them.
+                </p>
+
+                <div className="mt-4">
+                    {preview.error ? (
+                        <p className="text-sm text-red-600">{preview.error}</p>
+                    ) : (
+                        <>
+                            <p className="text-sm text-gray-700 mb-2">
+                                {preview.generated.length} rows ({countDesignRows(factors, options)} before sharing), {newCombinations} new scenario_id{newCombinations === 1 ? '' : 's'}.
+                            </p>
+                            <div className="overflow-x-auto max-h-60 overflow-y-auto border rounded-md">
+                                <table className="w-full text-xs text-left text-gray-600">
+                                    <thead className="text-gray-700 uppercase bg-gray-50 sticky top-0">
+                                        <tr>
+                                            <th className="px-2 py-1">scenario_id</th>
+                                            <th className="px-2 py-1">scenario_group</th>
+                                            {columns.map(column => <th key={column} className="px-2 py-1">{column}</th>)}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {preview.generated.slice(0, PREVIEW_ROWS).map((scenario, index) => (
+                                            <tr key={`${scenario.id}-${index}`} className="border-b">
+                                                <td className={`px-2 py-1 ${existingIds.has(scenario.id) ? '' : 'font-semibold text-blue-700'}`}>{scenario.id}</td>
+                                                <td className="px-2 py-1">{scenario.scenario_group}</td>
+                                                {columns.map(column => <td key={column} className="px-2 py-1">{scenario[column]}</td>)}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                            {preview.generated.length > PREVIEW_ROWS && (
+                                <p className="mt-1 text-xs text-gray-500">Showing the first {PREVIEW_ROWS} rows. New ids are shown in blue.</p>
+                            )}
+                        </>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-end space-x-3 mt-6 pt-4 border-t">
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-2 bg-gray-300 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-400 focus:outline-none focus:ring-2 focus:ring-gray-300"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onApply(preview.generated, 'append')}
+                        disabled={preview.generated.length === 0}
+                        className="px-4 py-2 bg-blue-100 text-blue-700 text-sm font-medium rounded-md hover:bg-blue-200 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-300"
+                    >
+                        Add to Scenarios
+                    </button>
+                    <button
+                        onClick={() => onApply(preview.generated, 'replace')}
+                        disabled={preview.generated.length === 0}
+                        className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-300"
+                    >
+                        Replace Scenarios
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -70,7 +70,7 @@ export const ScenarioEditModal: React.FC<ScenarioEditModalProps> = ({
                                 ) : field === 'comment' ? (
                                     <textarea
                                         value={editedScenario.comment || ''}
-                                        onChange={(e) => handleFieldChange(field, e.target.value.replace(/,/g, ''))}
+                                        onChange={(e) => handleFieldChange(field, e.target.value)}
                                         className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                                         rows={4}
                                         placeholder="Add optional notes for this scenario"
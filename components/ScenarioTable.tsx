@@ -1,24 +1,80 @@
-import React, { useMemo, useState } from 'react';
-import { DEFAULT_BASELINE, DEFAULT_SLIDER_RANGE, DEFAULT_TREATMENT } from '../services/distributionUtils';
+import React, { useEffect, useId, useMemo, useState } from 'react';
+import { BenefitCoupling, BenefitSummary } from '../services/benefitUtils';
+import {
+    DEFAULT_SLIDER_RANGE,
+    distributionToUserDistribution,
+    getArmDefaults,
+    getEmptyUserScenario,
+    getUserDistribution,
+    hasScenarioUserEdits,
+    MIN_SLIDER_CONFIDENCE,
+    userDistributionToDistribution,
+    validateRangeValue
+} from '../services/distributionUtils';
+import { fitDistribution } from '../services/fittingUtils';
+import { MonotonicityFlag } from '../services/monotonicityUtils';
+import { ACTIVE_PROJECT, ARM_PALETTES, ARMS, COMPARISON_ARMS, REFERENCE_ARM } from '../services/projectUtils';
+import {
+    answerToDistribution,
+    getEmptyChipsAnswer,
+    getQuantileMisfit,
+    QUANTILE_FIELDS,
+    QUANTILE_LABELS,
+    QUANTILE_MISFIT_TOLERANCE,
+    validateProtocolAnswer
+} from '../services/protocolUtils';
+import { StartingValueSuggestion, suggestStartingValues } from '../services/suggestionUtils';
 import { getTooltipText } from '../services/tooltipService';
-import { Scenario, UserDistribution, UserElicitationData } from '../types';
+import {
+    ArmId,
+    AuditEvent,
+    ChipsAnswer,
+    Distribution,
+    ElicitationProtocol,
+    FactorOrdering,
+    FlagAcknowledgements,
+    ProtocolAnswer,
+    QuantileAnswer,
+    Scenario,
+    UserDistribution,
+    UserElicitationData,
+    UserScenarioDistribution
+} from '../types';
+import { ChipsAndBinsInput } from './ChipsAndBinsInput';
 import { Tooltip } from './Tooltip';
 import { TripleHandleSlider } from './TripleHandleSlider';
 
 interface ScenarioTableProps {
     scenarios: Scenario[];
+    allScenarios: Scenario[]; // Every group, for suggesting starting values from similar scenarios
+    factorOrderings: FactorOrdering[];
     groups: string[];
     selectedGroup: string | null;
     selectedScenarioId: string | null;
     completionStatus: { [scenarioId: string]: boolean };
     userElicitationData: UserElicitationData;
     yieldColumn: string | null;
+    protocol: ElicitationProtocol; // How the selected row's distributions are entered
+    benefitSummaries: { [scenarioId: string]: Record<ArmId, BenefitSummary> }; // Keyed by compared arm
+    benefitThreshold: number;
+    benefitCoupling: BenefitCoupling;
+    onBenefitThresholdChange: (threshold: number) => void;
+    onBenefitCouplingChange: (coupling: BenefitCoupling) => void;
+    monotonicityFlags: MonotonicityFlag[];
+    flagAcknowledgements: FlagAcknowledgements;
+    onAcknowledgeFlags: (acknowledgements: FlagAcknowledgements) => void;
     onSelectScenario: (id: string) => void;
     onSelectGroup: (group: string) => void;
     onAddScenario: (templateScenario: Scenario) => void;
     onDeleteScenario: (scenarioId: string) => void;
-    onDistributionChange: (scenarioId: string, type: 'baseline' | 'treatment', newDistribution: UserDistribution) => void;
+    onDistributionChanges: (scenarioId: string, changes: Record<ArmId, UserDistribution>) => void;
+    onApplySuggestion: (scenarioId: string, values: UserScenarioDistribution) => void;
     onUpdateComment: (scenarioId: string, comment: string) => void;
+    auditTrail: AuditEvent[];
+    undoLabel: string | null; // Description of the step Undo would reverse, null when there is none
+    redoLabel: string | null;
+    onUndo: () => void;
+    onRedo: () => void;
 }
 
 // Helper function to calculate yield impact
@@ -26,6 +82,33 @@ const calculateYieldImpact = (lossPercentage: number, baselineYield: number): nu
     return baselineYield * (1 - lossPercentage / 100);
 };
 
+const SLIDER_FIELDS = ['min', 'mode', 'max'] as const;
+
+const ARM_LABELS: Record<ArmId, string> = Object.fromEntries(ARMS.map(arm => [arm.id, arm.label]));
+
+const ARM_STYLES: Record<ArmId, typeof ARM_PALETTES[keyof typeof ARM_PALETTES]> = Object.fromEntries(ARMS.map(arm => [arm.id, ARM_PALETTES[arm.colour]]));
+
+const SLIDER_FIELD_NAMES: Record<'min' | 'mode' | 'max', string> = {
+    min: 'minimum',
+    mode: 'most likely value',
+    max: 'maximum',
+};
+
+// Screen-reader message for compared-arm values held at or pulled down to the reference arm's
+const describeClamping = (armId: ArmId, fields: ('min' | 'mode' | 'max')[], values: Distribution, pulled: boolean): string => {
+    const changes = fields.map(field => `${SLIDER_FIELD_NAMES[field]} ${values[field]}%`).join(', ');
+    const reference = REFERENCE_ARM.label.toLowerCase();
+    return pulled
+        ? `${ARM_LABELS[armId]} lowered to stay at or below ${reference}: ${changes}`
+        : `${ARM_LABELS[armId]} cannot exceed ${reference}; held at ${changes}`;
+};
+
+const describeFlag = (flag: MonotonicityFlag): string => {
+    const expectation = flag.direction === 'increasing' ? 'higher' : 'lower';
+    return `${ARM_LABELS[flag.type]}: ${flag.column} "${flag.higherLevel}" (scenario ${flag.higherScenarioId}, mode ${flag.higherMode}%) `
+        + `is expected to have ${expectation} loss than "${flag.lowerLevel}" (scenario ${flag.lowerScenarioId}, mode ${flag.lowerMode}%).`;
+};
+
 const EMPTY_KEY = '__EMPTY__';
 
 const isValueEmpty = (value: unknown): boolean => {
@@ -63,23 +146,185 @@ const extractNumericValue = (value: unknown): number | null => {
 
 type ColumnStyleResolver = (value: unknown) => React.CSSProperties | undefined;
 
+// Full support implied by the confidence slider, shown beneath the selected row's sliders
+const ImpliedRange: React.FC<{ userDist: UserDistribution; defaults: Distribution; className: string }> = ({ userDist, defaults, className }) => {
+    const dist = userDistributionToDistribution(userDist, defaults);
+    const fitted = fitDistribution(dist);
+    return (
+        <div className={`text-xs ${className}`}>
+            Implied full range ({dist.confidence}% within min–max): {fitted.lower.toFixed(1)}–{fitted.upper.toFixed(1)}%
+        </div>
+    );
+};
+
+// Percentiles of the fitted distribution, beside those the expert stated when the arm has an answer,
+// with a warning when the Beta-PERT cannot follow the answer closely
+const FittedPercentiles: React.FC<{ values: Distribution; answer?: ProtocolAnswer; className: string }> = ({ values, answer, className }) => {
+    if (!answer) {
+        const { quantiles } = fitDistribution(values);
+        return (
+            <div className={`text-xs ${className}`}>
+                Fitted percentiles: 5th {quantiles.p05.toFixed(1)}%, 50th {quantiles.p50.toFixed(1)}%, 95th {quantiles.p95.toFixed(1)}%
+            </div>
+        );
+    }
+    const { stated, fitted, largest } = getQuantileMisfit(answer, values);
+    return (
+        <div className={`text-xs ${className}`}>
+            Stated → fitted percentiles: {QUANTILE_FIELDS.map(field =>
+                `${QUANTILE_LABELS[field]} ${stated[field].toFixed(1)} → ${fitted[field].toFixed(1)}%`).join(', ')}
+            {largest > QUANTILE_MISFIT_TOLERANCE && (
+                <div role="status" className="text-amber-700">
+                    The fitted shape misses your answer by up to {largest.toFixed(1)} points; a Beta-PERT cannot match these percentiles exactly.
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface RangeValueInputProps {
+    label: string;
+    ariaLabel: string;
+    value: number;
+    validate: (value: number) => string | null;
+    onCommit: (value: number) => void;
+}
+
+// Exact entry for min, mode or max. Typing stays local until Enter or leaving the field, so a partly typed
+// number never reaches the distribution; an entry that breaks a constraint is explained and left unapplied.
+const RangeValueInput: React.FC<RangeValueInputProps> = ({ label, ariaLabel, value, validate, onCommit }) => {
+    const [draft, setDraft] = useState<string | null>(null);
+    const errorId = useId();
+
+    // A change made elsewhere, such as a slider drag, replaces whatever was being typed
+    useEffect(() => {
+        setDraft(prev => (prev !== null && Number(prev) === value ? prev : null));
+    }, [value]);
+
+    const parse = (text: string): number => (text.trim() === '' ? NaN : Number(text));
+    const text = draft ?? String(value);
+    const error = draft === null ? null : validate(parse(draft));
+
+    const commitDraft = () => {
+        if (draft === null || error !== null) return;
+        const next = parse(draft);
+        setDraft(null);
+        if (next !== value) {
+            onCommit(next);
+        }
+    };
+
+    return (
+        <label className="flex flex-col text-xs">
+            <span className="text-gray-500 uppercase">{label}</span>
+            <input
+                type="number"
+                step="0.1"
+                value={text}
+                aria-label={ariaLabel}
+                aria-invalid={error !== null}
+                aria-describedby={error ? errorId : undefined}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commitDraft}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitDraft();
+                    if (e.key === 'Escape') setDraft(null);
+                }}
+                className={`w-20 px-2 py-1 border rounded-md ${error ? 'border-red-500' : 'border-gray-300'}`}
+            />
+            {error && <span id={errorId} role="alert" className="mt-1 max-w-[9rem] text-red-600">{error}</span>}
+        </label>
+    );
+};
+
 export const ScenarioTable: React.FC<ScenarioTableProps> = ({ 
     scenarios, 
+    allScenarios,
+    factorOrderings,
     groups, 
     selectedGroup, 
     selectedScenarioId,
     completionStatus,
     userElicitationData,
     yieldColumn,
+    protocol,
+    benefitSummaries,
+    benefitThreshold,
+    benefitCoupling,
+    onBenefitThresholdChange,
+    onBenefitCouplingChange,
+    monotonicityFlags,
+    flagAcknowledgements,
+    onAcknowledgeFlags,
     onSelectScenario, 
     onSelectGroup,
     onAddScenario,
     onDeleteScenario,
-    onDistributionChange,
-    onUpdateComment
+    onDistributionChanges,
+    onApplySuggestion,
+    onUpdateComment,
+    auditTrail,
+    undoLabel,
+    redoLabel,
+    onUndo,
+    onRedo
 }) => {
     const [commentEditorScenario, setCommentEditorScenario] = useState<Scenario | null>(null);
     const [commentDraft, setCommentDraft] = useState('');
+    const [flagReviewScenarioId, setFlagReviewScenarioId] = useState<string | null>(null);
+    const [rationaleDrafts, setRationaleDrafts] = useState<FlagAcknowledgements>({});
+    const [historyScenarioId, setHistoryScenarioId] = useState<string | null>(null);
+    const [suggestion, setSuggestion] = useState<StartingValueSuggestion | null>(null);
+    const [clampAnnouncement, setClampAnnouncement] = useState('');
+
+    // A suggestion is only shown on its own untouched, selected scenario; anything else has gone stale
+    const pendingSuggestion = suggestion
+        && suggestion.scenarioId === selectedScenarioId
+        && !(userElicitationData[suggestion.scenarioId] && hasScenarioUserEdits(userElicitationData[suggestion.scenarioId]))
+        ? suggestion
+        : null;
+
+    // The values a row is edited from: its pending suggestion, otherwise what is stored
+    const getEditableUserScenario = (scenarioId: string): UserScenarioDistribution =>
+        (pendingSuggestion?.scenarioId === scenarioId ? pendingSuggestion.values : userElicitationData[scenarioId]) || getEmptyUserScenario();
+
+    // Adjusting a suggestion stores it along with the adjustment
+    const commitArmChanges = (scenarioId: string, changes: Record<ArmId, UserDistribution>) => {
+        if (pendingSuggestion?.scenarioId === scenarioId) {
+            onApplySuggestion(scenarioId, { ...pendingSuggestion.values, ...changes });
+            setSuggestion(null);
+            return;
+        }
+        onDistributionChanges(scenarioId, changes);
+    };
+
+    const handleSuggest = (scenario: Scenario) => {
+        setSuggestion(suggestStartingValues(scenario, allScenarios, userElicitationData, factorOrderings));
+    };
+
+    const handleAcceptSuggestion = () => {
+        if (pendingSuggestion) {
+            onApplySuggestion(pendingSuggestion.scenarioId, pendingSuggestion.values);
+        }
+        setSuggestion(null);
+    };
+
+    // Newest first
+    const historyEvents = historyScenarioId
+        ? auditTrail.filter(event => event.scenarioId === historyScenarioId).reverse()
+        : [];
+
+    const flagsByScenario = useMemo(() => {
+        const byScenario: { [scenarioId: string]: MonotonicityFlag[] } = {};
+        monotonicityFlags.forEach(flag => {
+            [flag.lowerScenarioId, flag.higherScenarioId].forEach(id => {
+                (byScenario[id] = byScenario[id] || []).push(flag);
+            });
+        });
+        return byScenario;
+    }, [monotonicityFlags]);
+
+    const reviewFlags = flagReviewScenarioId ? flagsByScenario[flagReviewScenarioId] ?? [] : [];
 
     const headers = scenarios.length > 0 ? Object.keys(scenarios[0]).filter(key => !['id', 'scenario_group', 'comment'].includes(key)) : [];
 
@@ -173,14 +418,31 @@ export const ScenarioTable: React.FC<ScenarioTableProps> = ({
         closeCommentEditor();
     };
 
-    const handleDistributionChange = (scenarioId: string, type: 'baseline' | 'treatment', field: keyof UserDistribution, value: number) => {
-        const currentUserDist = userElicitationData[scenarioId] || { 
-            baseline: { min: null, max: null, mode: null, confidence: null }, 
-            treatment: { min: null, max: null, mode: null, confidence: null } 
-        };
+    const openFlagReview = (event: React.MouseEvent, scenarioId: string) => {
+        event.stopPropagation();
+        const drafts: FlagAcknowledgements = {};
+        (flagsByScenario[scenarioId] ?? []).forEach(flag => {
+            drafts[flag.id] = flagAcknowledgements[flag.id] ?? '';
+        });
+        setRationaleDrafts(drafts);
+        setFlagReviewScenarioId(scenarioId);
+    };
+
+    const closeFlagReview = () => {
+        setFlagReviewScenarioId(null);
+        setRationaleDrafts({});
+    };
+
+    const handleFlagReviewSave = () => {
+        onAcknowledgeFlags(rationaleDrafts);
+        closeFlagReview();
+    };
+
+    const handleDistributionChange = (scenarioId: string, type: ArmId, field: keyof UserDistribution, value: number) => {
+        const currentUserDist = getEditableUserScenario(scenarioId);
         
-        const currentData = currentUserDist[type];
-        const defaults = type === 'baseline' ? DEFAULT_BASELINE : DEFAULT_TREATMENT;
+        const currentData = getUserDistribution(currentUserDist, type);
+        const defaults = getArmDefaults(type);
         
         // Get current values (use defaults for null values)
         const currentMin = currentData.min ?? defaults.min;
@@ -195,37 +457,42 @@ export const ScenarioTable: React.FC<ScenarioTableProps> = ({
             confidence: currentConfidence 
         };
         
-        // Apply max constraints for treatment (treatment values cannot exceed baseline values)
+        // Apply max constraints for compared arms (their values cannot exceed the reference arm's)
         const getMaxConstraint = (field: keyof UserDistribution) => {
-            if (type === 'treatment' && field !== 'confidence') {
-                const baselineData = currentUserDist.baseline;
-                const baselineValue = baselineData[field as keyof UserDistribution] ?? DEFAULT_BASELINE[field as keyof UserDistribution];
-                return Math.min(100, baselineValue);
+            if (type !== REFERENCE_ARM.id && field !== 'confidence') {
+                const referenceData = getUserDistribution(currentUserDist, REFERENCE_ARM.id);
+                const referenceValue = referenceData[field] ?? REFERENCE_ARM.defaults[field];
+                return Math.min(100, referenceValue);
             }
             return 100;
         };
         
         switch (field) {
             case 'min':
-                min = Math.round(Math.max(0, Math.min(value, getMaxConstraint('min'))));
+                min = Math.max(0, Math.min(value, getMaxConstraint('min')));
                 if (min > mode) {
                     mode = Math.min(min, getMaxConstraint('mode'));
                 }
                 break;
             case 'max':
-                max = Math.round(Math.min(getMaxConstraint('max'), Math.max(value, 0)));
+                max = Math.min(getMaxConstraint('max'), Math.max(value, 0));
                 if (max < mode) {
                     mode = max;
                 }
                 break;
             case 'mode':
-                mode = Math.round(Math.max(min, Math.min(value, Math.min(max, getMaxConstraint('mode')))));
+                mode = Math.max(min, Math.min(value, Math.min(max, getMaxConstraint('mode'))));
                 break;
             case 'confidence':
                 confidence = Math.round(Math.max(1, Math.min(value, 100)));
                 break;
         }
 
+        if (field !== 'confidence') {
+            handleRangeChange(scenarioId, type, { min, mode, max });
+            return;
+        }
+
         // Convert back to UserDistribution (set to null if matches defaults)
         const newUserDistribution: UserDistribution = {
             min: min === defaults.min ? null : min,
@@ -234,27 +501,101 @@ export const ScenarioTable: React.FC<ScenarioTableProps> = ({
             confidence: confidence === defaults.confidence ? null : confidence,
         };
 
-        onDistributionChange(scenarioId, type, newUserDistribution);
+        commitArmChanges(scenarioId, { [type]: newUserDistribution });
     };
 
-    const handleTripleSliderChange = (scenarioId: string, type: 'baseline' | 'treatment', values: { min: number; mode: number; max: number }) => {
-        const currentUserDist = userElicitationData[scenarioId] || { 
-            baseline: { min: null, max: null, mode: null, confidence: null }, 
-            treatment: { min: null, max: null, mode: null, confidence: null } 
-        };
+    // Stored form of a slider move, keeping the arm's confidence
+    const getTripleSliderDistribution = (scenarioId: string, type: ArmId, values: { min: number; mode: number; max: number }): UserDistribution => {
+        const currentUserDist = getEditableUserScenario(scenarioId);
         
-        const defaults = type === 'baseline' ? DEFAULT_BASELINE : DEFAULT_TREATMENT;
-        const currentConfidence = currentUserDist[type].confidence ?? defaults.confidence;
+        const defaults = getArmDefaults(type);
+        const currentConfidence = getUserDistribution(currentUserDist, type).confidence ?? defaults.confidence;
 
         // Convert back to UserDistribution (set to null if matches defaults)
-        const newUserDistribution: UserDistribution = {
+        return {
             min: values.min === defaults.min ? null : values.min,
             max: values.max === defaults.max ? null : values.max,
             mode: values.mode === defaults.mode ? null : values.mode,
             confidence: currentConfidence === defaults.confidence ? null : currentConfidence,
         };
+    };
+
+    // Current values of each arm, with defaults filled in
+    const getArmValues = (scenarioId: string): Record<ArmId, Distribution> => {
+        const userDist = getEditableUserScenario(scenarioId);
+        return Object.fromEntries(ARMS.map(arm => [
+            arm.id,
+            userDistributionToDistribution(getUserDistribution(userDist, arm.id), arm.defaults),
+        ]));
+    };
+
+    // Percentiles to edit from: the arm's percentile answer, otherwise those of its current values
+    const getQuantileAnswer = (scenarioId: string, type: ArmId): QuantileAnswer => {
+        const answer = getUserDistribution(getEditableUserScenario(scenarioId), type).answer;
+        if (answer?.protocol === 'quantile') {
+            return answer;
+        }
+        const { quantiles } = fitDistribution(getArmValues(scenarioId)[type]);
+        const round = (value: number) => Math.round(value * 10) / 10;
+        return { protocol: 'quantile', p05: round(quantiles.p05), p50: round(quantiles.p50), p95: round(quantiles.p95) };
+    };
+
+    // The arm's chips, or empty bins when it has none placed in the project's current layout
+    const getChipsAnswer = (scenarioId: string, type: ArmId): ChipsAnswer => {
+        const answer = getUserDistribution(getEditableUserScenario(scenarioId), type).answer;
+        const empty = getEmptyChipsAnswer();
+        return answer?.protocol === 'chips' && answer.edges.join() === empty.edges.join() ? answer : empty;
+    };
+
+    const validateAnswer = (scenarioId: string, type: ArmId, answer: ProtocolAnswer): string | null =>
+        validateProtocolAnswer(answer, type === REFERENCE_ARM.id ? null : getArmValues(scenarioId)[REFERENCE_ARM.id]);
 
-        onDistributionChange(scenarioId, type, newUserDistribution);
+    // Store the fitted values along with the answer they came from
+    const handleAnswerChange = (scenarioId: string, type: ArmId, answer: ProtocolAnswer) => {
+        const values = answerToDistribution(answer);
+        handleRangeChange(scenarioId, type, values, { ...distributionToUserDistribution(values, getArmDefaults(type)), answer });
+    };
+
+    // stored replaces the arm's usual slider-move values, e.g. to carry a fitted confidence and its answer
+    const handleRangeChange = (
+        scenarioId: string,
+        type: ArmId,
+        values: { min: number; mode: number; max: number },
+        stored?: UserDistribution
+    ) => {
+        const armValues = getArmValues(scenarioId);
+        if (type !== REFERENCE_ARM.id) {
+            // Ensure compared arm values don't exceed the reference arm's
+            const reference = armValues[REFERENCE_ARM.id];
+            const heldFields = SLIDER_FIELDS.filter(field => values[field] > reference[field]);
+            setClampAnnouncement(heldFields.length > 0 ? describeClamping(type, heldFields, reference, false) : '');
+            commitArmChanges(scenarioId, {
+                [type]: heldFields.length === 0 && stored ? stored : getTripleSliderDistribution(scenarioId, type, {
+                    min: Math.min(values.min, reference.min),
+                    mode: Math.min(values.mode, reference.mode),
+                    max: Math.min(values.max, reference.max)
+                })
+            });
+            return;
+        }
+
+        const changes = { [type]: stored ?? getTripleSliderDistribution(scenarioId, type, values) };
+        const pulledDown: string[] = [];
+        // If the reference arm drops below a compared arm, pull that arm down with it
+        COMPARISON_ARMS.forEach(other => {
+            const current = armValues[other.id];
+            const pulledFields = SLIDER_FIELDS.filter(field => current[field] > values[field]);
+            if (pulledFields.length > 0) {
+                changes[other.id] = getTripleSliderDistribution(scenarioId, other.id, {
+                    min: Math.min(current.min, values.min),
+                    mode: Math.min(current.mode, values.mode),
+                    max: Math.min(current.max, values.max)
+                });
+                pulledDown.push(describeClamping(other.id, pulledFields, { ...current, ...values }, true));
+            }
+        });
+        setClampAnnouncement(pulledDown.join('. '));
+        commitArmChanges(scenarioId, changes);
     };
 
     const handleDuplicateScenario = (scenario: Scenario) => {
@@ -269,6 +610,7 @@ export const ScenarioTable: React.FC<ScenarioTableProps> = ({
     return (
         <>
         <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+            <div className="sr-only" aria-live="polite">{clampAnnouncement}</div>
             <div className="sm:flex sm:items-baseline">
                  <h2 className="text-xl font-semibold text-gray-800">Scenarios</h2>
                  <div className="mt-4 sm:mt-0 sm:ml-10">
@@ -288,6 +630,50 @@ export const ScenarioTable: React.FC<ScenarioTableProps> = ({
                         ))}
                     </nav>
                 </div>
+                <div className="mt-4 sm:mt-0 sm:ml-auto flex items-center gap-3 text-xs text-gray-600">
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={onUndo}
+                            disabled={!undoLabel}
+                            title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                            className="px-2 py-1 border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50 disabled:hover:bg-transparent"
+                        >
+                            Undo
+                        </button>
+                        <button
+                            onClick={onRedo}
+                            disabled={!redoLabel}
+                            title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                            className="px-2 py-1 border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50 disabled:hover:bg-transparent"
+                        >
+                            Redo
+                        </button>
+                    </div>
+                    <label className="flex items-center gap-1">
+                        Benefit threshold
+                        <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="0.5"
+                            value={benefitThreshold}
+                            onChange={(e) => onBenefitThresholdChange(Math.max(0, parseFloat(e.target.value) || 0))}
+                            className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+                        />
+                        %
+                    </label>
+                    <label className="flex items-center gap-1">
+                        Pairing
+                        <select
+                            value={benefitCoupling}
+                            onChange={(e) => onBenefitCouplingChange(e.target.value as BenefitCoupling)}
+                            className="px-2 py-1 border border-gray-300 rounded-md"
+                        >
+                            <option value="comonotonic">Same paddock (comonotonic)</option>
+                            <option value="independent">Independent</option>
+                        </select>
+                    </label>
+                </div>
             </div>
            
             <div className="mt-4 overflow-x-auto max-h-[600px] overflow-y-auto border rounded-md">
@@ -316,6 +702,11 @@ export const ScenarioTable: React.FC<ScenarioTableProps> = ({
                                     Confidence
                                 </Tooltip>
                             </th>
+                            <th scope="col" className="px-4 py-3 w-32">
+                                <Tooltip text={getTooltipText('SPRAY BENEFIT')}>
+                                    SPRAY BENEFIT
+                                </Tooltip>
+                            </th>
                             <th scope="col" className="px-4 py-3 w-32">
                                 <Tooltip text={getTooltipText('Actions')}>
                                     Actions
@@ -328,11 +719,14 @@ export const ScenarioTable: React.FC<ScenarioTableProps> = ({
                             scenarios.map((scenario, rowIndex) => {
                                 const isSelected = selectedScenarioId === scenario.id;
                                 const isCompleted = completionStatus[scenario.id];
-                                const userDist = userElicitationData[scenario.id] || { 
-                                    baseline: { min: null, max: null, mode: null, confidence: null }, 
-                                    treatment: { min: null, max: null, mode: null, confidence: null } 
-                                };
+                                const isUntouched = !(userElicitationData[scenario.id] && hasScenarioUserEdits(userElicitationData[scenario.id]));
+                                const rowSuggestion = pendingSuggestion?.scenarioId === scenario.id ? pendingSuggestion : null;
+                                const userDist = getEditableUserScenario(scenario.id);
+                                const armValues = getArmValues(scenario.id);
                                 const baselineYield = yieldColumn && scenario[yieldColumn] ? scenario[yieldColumn] as number : undefined;
+                                const benefitSummary = benefitSummaries[scenario.id];
+                                const scenarioFlags = flagsByScenario[scenario.id] ?? [];
+                                const unacknowledgedFlagCount = scenarioFlags.filter(flag => !flagAcknowledgements[flag.id]).length;
 
                                 return (
                                     <tr
@@ -356,6 +750,21 @@ export const ScenarioTable: React.FC<ScenarioTableProps> = ({
                                                     </svg>
                                                 )}
                                             </div>
+                                            {scenarioFlags.length > 0 && (
+                                                <div className="flex items-center justify-center mt-1">
+                                                    <button
+                                                        onClick={(e) => openFlagReview(e, scenario.id)}
+                                                        className={unacknowledgedFlagCount > 0 ? 'text-amber-500 hover:text-amber-700' : 'text-gray-400 hover:text-gray-600'}
+                                                        title={unacknowledgedFlagCount > 0
+                                                            ? `${unacknowledgedFlagCount} monotonicity check(s) need review`
+                                                            : 'Monotonicity checks acknowledged'}
+                                                    >
+                                                        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+                                                            <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+                                                        </svg>
+                                                    </button>
+                                                </div>
+                                            )}
                                         </td>
                                         {headers.map(header => {
                                             const cellStyle = columnColorStyles[header]?.(scenario[header]);
@@ -374,66 +783,123 @@ export const ScenarioTable: React.FC<ScenarioTableProps> = ({
                         {/* YIELD LOSS Column (without confidence) */}
                         <td className={`px-4 ${isSelected ? 'py-4' : 'py-2'}`} onClick={(e) => e.stopPropagation()}>
                             <div className={isSelected ? 'space-y-4' : 'space-y-2'}>
-                                {/* Unsprayed Distribution */}
-                                <div className={`${isSelected ? 'space-y-2' : ''} ${!isSelected ? 'pointer-events-none' : ''}`}>
-                                    {isSelected && <div className="text-xs font-semibold text-blue-600 mb-2">UNSPRAYED</div>}
-                                    <TripleHandleSlider
-                                        min={userDist.baseline.min ?? DEFAULT_BASELINE.min}
-                                        mode={userDist.baseline.mode ?? DEFAULT_BASELINE.mode}
-                                        max={userDist.baseline.max ?? DEFAULT_BASELINE.max}
-                                        minBound={DEFAULT_SLIDER_RANGE.min}
-                                        maxBound={DEFAULT_SLIDER_RANGE.max}
-                                        disabled={!isSelected}
-                                        color="blue"
-                                        onChange={(values) => {
-                                            handleTripleSliderChange(scenario.id, 'baseline', values);
-                                            // If baseline changes and treatment exceeds it, adjust treatment
-                                            const treatmentMin = userDist.treatment.min ?? DEFAULT_TREATMENT.min;
-                                            const treatmentMode = userDist.treatment.mode ?? DEFAULT_TREATMENT.mode;
-                                            const treatmentMax = userDist.treatment.max ?? DEFAULT_TREATMENT.max;
-                                            
-                                            if (treatmentMin > values.min || treatmentMode > values.mode || treatmentMax > values.max) {
-                                                handleTripleSliderChange(scenario.id, 'treatment', {
-                                                    min: Math.min(treatmentMin, values.min),
-                                                    mode: Math.min(treatmentMode, values.mode),
-                                                    max: Math.min(treatmentMax, values.max)
-                                                });
-                                            }
-                                        }}
-                                        yieldValue={baselineYield}
-                                        showLabels={isSelected}
-                                    />
-                                </div>
-
-                                {/* Sprayed Distribution */}
-                                <div className={`${isSelected ? 'space-y-2' : ''} ${!isSelected ? 'pointer-events-none' : ''}`}>
-                                    {isSelected && <div className="text-xs font-semibold text-green-600 mb-2">SPRAYED</div>}
-                                    <TripleHandleSlider
-                                        min={userDist.treatment.min ?? DEFAULT_TREATMENT.min}
-                                        mode={userDist.treatment.mode ?? DEFAULT_TREATMENT.mode}
-                                        max={userDist.treatment.max ?? DEFAULT_TREATMENT.max}
-                                        minBound={DEFAULT_SLIDER_RANGE.min}
-                                        maxBound={DEFAULT_SLIDER_RANGE.max}
-                                        disabled={!isSelected}
-                                        color="green"
-                                        onChange={(values) => {
-                                            // Ensure sprayed values don't exceed unsprayed values
-                                            const baselineMin = userDist.baseline.min ?? DEFAULT_BASELINE.min;
-                                            const baselineMode = userDist.baseline.mode ?? DEFAULT_BASELINE.mode;
-                                            const baselineMax = userDist.baseline.max ?? DEFAULT_BASELINE.max;
-                                            
-                                            const constrainedValues = {
-                                                min: Math.min(values.min, baselineMin),
-                                                mode: Math.min(values.mode, baselineMode),
-                                                max: Math.min(values.max, baselineMax)
-                                            };
-                                            
-                                            handleTripleSliderChange(scenario.id, 'treatment', constrainedValues);
-                                        }}
-                                        yieldValue={baselineYield}
-                                        showLabels={isSelected}
-                                    />
-                                </div>
+                                {isSelected && isUntouched && (rowSuggestion ? (
+                                    <div className="rounded-md border border-amber-300 bg-amber-50 p-2 text-xs text-amber-900 space-y-1">
+                                        <div className="font-semibold">Suggested starting values, not yet saved</div>
+                                        <ul className="space-y-0.5">
+                                            {rowSuggestion.sources.map(source => (
+                                                <li key={source.scenario.id}>
+                                                    Scenario {source.scenario.id} ({source.scenario.scenario_group}),{' '}
+                                                    {source.differences.length === 0 ? 'same factors' : `differs in ${source.differences.join(', ')}`}:{' '}
+                                                    {Math.round(source.weight * 100)}%
+                                                </li>
+                                            ))}
+                                        </ul>
+                                        <div className="flex items-center gap-2 pt-1">
+                                            <button
+                                                onClick={handleAcceptSuggestion}
+                                                className="px-2 py-0.5 rounded-md bg-amber-600 text-white hover:bg-amber-700"
+                                            >
+                                                Accept
+                                            </button>
+                                            <button
+                                                onClick={() => setSuggestion(null)}
+                                                className="px-2 py-0.5 rounded-md border border-amber-400 hover:bg-amber-100"
+                                            >
+                                                Dismiss
+                                            </button>
+                                            <span className="text-amber-700">Moving a slider keeps the suggestion too.</span>
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <button
+                                        onClick={() => handleSuggest(scenario)}
+                                        disabled={!allScenarios.some(s => s.id !== scenario.id && userElicitationData[s.id] && hasScenarioUserEdits(userElicitationData[s.id]))}
+                                        title="Start from your answers to the most similar scenarios"
+                                        className="px-2 py-1 text-xs font-medium rounded-md text-amber-700 bg-amber-100 hover:bg-amber-200 disabled:opacity-50 disabled:hover:bg-amber-100"
+                                    >
+                                        Suggest starting values
+                                    </button>
+                                ))}
+                                {ARMS.map(arm => (
+                                    <div key={arm.id} className={`${isSelected ? 'space-y-2' : ''} ${!isSelected ? 'pointer-events-none' : ''}`}>
+                                        {isSelected && <div className={`text-xs font-semibold ${ARM_STYLES[arm.id].text} mb-2 uppercase`}>{arm.label}</div>}
+                                        <TripleHandleSlider
+                                            min={armValues[arm.id].min}
+                                            mode={armValues[arm.id].mode}
+                                            max={armValues[arm.id].max}
+                                            minBound={DEFAULT_SLIDER_RANGE.min}
+                                            maxBound={DEFAULT_SLIDER_RANGE.max}
+                                            disabled={!isSelected || protocol !== 'range'}
+                                            color={arm.colour}
+                                            label={`${arm.label} yield loss, scenario ${scenario.id}`}
+                                            onFocus={() => {
+                                                // Tabbing into another row's slider selects that row
+                                                if (!isSelected) onSelectScenario(scenario.id);
+                                            }}
+                                            onChange={(values) => handleRangeChange(scenario.id, arm.id, values)}
+                                            yieldValue={baselineYield}
+                                            showLabels={isSelected}
+                                        />
+                                        {isSelected && protocol === 'quantile' && (() => {
+                                            const answer = getQuantileAnswer(scenario.id, arm.id);
+                                            return (
+                                                <div className="flex justify-between items-start gap-2">
+                                                    {QUANTILE_FIELDS.map(field => (
+                                                        <RangeValueInput
+                                                            key={field}
+                                                            label={QUANTILE_LABELS[field]}
+                                                            ariaLabel={`${arm.label} ${QUANTILE_LABELS[field]} percentile, scenario ${scenario.id} (%)`}
+                                                            value={answer[field]}
+                                                            validate={(value) => validateAnswer(scenario.id, arm.id, { ...answer, [field]: value })}
+                                                            onCommit={(value) => handleAnswerChange(scenario.id, arm.id, { ...answer, [field]: value })}
+                                                        />
+                                                    ))}
+                                                </div>
+                                            );
+                                        })()}
+                                        {isSelected && protocol === 'chips' && (
+                                            <ChipsAndBinsInput
+                                                label={`${arm.label} chips, scenario ${scenario.id}`}
+                                                value={getChipsAnswer(scenario.id, arm.id)}
+                                                total={ACTIVE_PROJECT.chips.total}
+                                                colour={arm.colour}
+                                                validate={(answer) => validateAnswer(scenario.id, arm.id, answer)}
+                                                onCommit={(answer) => handleAnswerChange(scenario.id, arm.id, answer)}
+                                            />
+                                        )}
+                                        {isSelected && protocol !== 'range' && (() => {
+                                            const answer = getUserDistribution(userDist, arm.id).answer;
+                                            return (
+                                                <FittedPercentiles
+                                                    values={armValues[arm.id]}
+                                                    answer={answer?.protocol === protocol ? answer : undefined}
+                                                    className={ARM_STYLES[arm.id].text}
+                                                />
+                                            );
+                                        })()}
+                                        {isSelected && protocol === 'range' && (
+                                            <div className="flex justify-between items-start gap-2">
+                                                {SLIDER_FIELDS.map(field => (
+                                                    <RangeValueInput
+                                                        key={field}
+                                                        label={field}
+                                                        ariaLabel={`${arm.label} ${SLIDER_FIELD_NAMES[field]}, scenario ${scenario.id} (%)`}
+                                                        value={armValues[arm.id][field]}
+                                                        validate={(value) => validateRangeValue(
+                                                            field,
+                                                            value,
+                                                            armValues[arm.id],
+                                                            arm.id === REFERENCE_ARM.id ? null : armValues[REFERENCE_ARM.id]
+                                                        )}
+                                                        onCommit={(value) => handleDistributionChange(scenario.id, arm.id, field, value)}
+                                                    />
+                                                ))}
+                                            </div>
+                                        )}
+                                        {isSelected && <ImpliedRange userDist={getUserDistribution(userDist, arm.id)} defaults={arm.defaults} className={ARM_STYLES[arm.id].text} />}
+                                    </div>
+                                ))}
                             </div>
                         </td>
 
@@ -441,64 +907,69 @@ export const ScenarioTable: React.FC<ScenarioTableProps> = ({
                         <td className={`px-2 ${isSelected ? 'py-4' : 'py-2'}`} onClick={(e) => e.stopPropagation()}>
                             {isSelected ? (
                                 <div className="flex flex-col items-center space-y-3 h-full">
-                                    {/* Unsprayed Confidence */}
-                                    <div className="flex items-center gap-1">
-                                        <div className="flex items-center justify-center" style={{ height: '80px', width: '24px' }}>
-                                            <input 
-                                                type="range" 
-                                                min="50" 
-                                                max="100" 
-                                                value={userDist.baseline.confidence ?? DEFAULT_BASELINE.confidence}
-                                                onChange={(e) => {
-                                                    handleDistributionChange(scenario.id, 'baseline', 'confidence', Number(e.target.value));
-                                                }}
-                                                className="h-2 rounded-lg appearance-none cursor-pointer bg-gray-200 accent-blue-500"
-                                                style={{ 
-                                                    width: '80px',
-                                                    transform: 'rotate(-90deg)',
-                                                    transformOrigin: 'center center'
-                                                }}
-                                            />
-                                        </div>
-                                        <span className="text-xs font-medium text-blue-600">
-                                            {userDist.baseline.confidence ?? DEFAULT_BASELINE.confidence}
-                                        </span>
-                                    </div>
-
-                                    {/* Sprayed Confidence */}
-                                    <div className="flex items-center gap-1">
-                                        <div className="flex items-center justify-center" style={{ height: '80px', width: '24px' }}>
-                                            <input 
-                                                type="range" 
-                                                min="50" 
-                                                max="100" 
-                                                value={userDist.treatment.confidence ?? DEFAULT_TREATMENT.confidence}
-                                                onChange={(e) => {
-                                                    handleDistributionChange(scenario.id, 'treatment', 'confidence', Number(e.target.value));
-                                                }}
-                                                className="h-2 rounded-lg appearance-none cursor-pointer bg-gray-200 accent-green-500"
-                                                style={{ 
-                                                    width: '80px',
-                                                    transform: 'rotate(-90deg)',
-                                                    transformOrigin: 'center center'
-                                                }}
-                                            />
+                                    {ARMS.map(arm => (
+                                        <div key={arm.id} className="flex items-center gap-1">
+                                            <div className="flex items-center justify-center" style={{ height: '80px', width: '24px' }}>
+                                                <input 
+                                                    type="range" 
+                                                    min={MIN_SLIDER_CONFIDENCE} 
+                                                    max="100" 
+                                                    value={armValues[arm.id].confidence}
+                                                    disabled={protocol !== 'range'}
+                                                    title={protocol !== 'range' ? 'Set by the fit to your answer' : undefined}
+                                                    aria-label={`${arm.label} confidence, scenario ${scenario.id}`}
+                                                    aria-valuetext={`${armValues[arm.id].confidence}% within minimum to maximum`}
+                                                    onChange={(e) => {
+                                                        handleDistributionChange(scenario.id, arm.id, 'confidence', Number(e.target.value));
+                                                    }}
+                                                    className={`h-2 rounded-lg appearance-none cursor-pointer bg-gray-200 ${ARM_STYLES[arm.id].accent}`}
+                                                    style={{ 
+                                                        width: '80px',
+                                                        transform: 'rotate(-90deg)',
+                                                        transformOrigin: 'center center'
+                                                    }}
+                                                />
+                                            </div>
+                                            <span className={`text-xs font-medium ${ARM_STYLES[arm.id].text}`}>
+                                                {armValues[arm.id].confidence}
+                                            </span>
                                         </div>
-                                        <span className="text-xs font-medium text-green-600">
-                                            {userDist.treatment.confidence ?? DEFAULT_TREATMENT.confidence}
-                                        </span>
-                                    </div>
+                                    ))}
                                 </div>
                             ) : (
                                 <div className="flex flex-col items-center space-y-2">
                                     {/* Just show the confidence values for non-selected rows */}
-                                    <span className="text-xs font-medium text-blue-600">
-                                        {userDist.baseline.confidence ?? DEFAULT_BASELINE.confidence}
-                                    </span>
-                                    <span className="text-xs font-medium text-green-600">
-                                        {userDist.treatment.confidence ?? DEFAULT_TREATMENT.confidence}
-                                    </span>
+                                    {ARMS.map(arm => (
+                                        <span key={arm.id} className={`text-xs font-medium ${ARM_STYLES[arm.id].text}`}>
+                                            {armValues[arm.id].confidence}
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                        </td>
+
+                        {/* Spray benefit of each compared arm over the reference arm */}
+                        <td className={`px-4 ${isSelected ? 'py-4' : 'py-2'}`}>
+                            {benefitSummary ? (
+                                <div className="text-xs space-y-2">
+                                    {COMPARISON_ARMS.map(arm => {
+                                        const summary = benefitSummary[arm.id];
+                                        return (
+                                            <div key={arm.id} className="space-y-1">
+                                                {COMPARISON_ARMS.length > 1 && <div className={`font-semibold ${ARM_STYLES[arm.id].text}`}>{arm.label}</div>}
+                                                <div className="font-medium text-purple-700">{summary.mean.toFixed(1)}% saved</div>
+                                                <div className="text-gray-600">P(&gt;{benefitThreshold}%): {Math.round(summary.probabilityExceeds * 100)}%</div>
+                                                {isSelected && (
+                                                    <div className="text-gray-500">
+                                                        90% range {summary.quantiles.p05.toFixed(1)} to {summary.quantiles.p95.toFixed(1)}%
+                                                    </div>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
                                 </div>
+                            ) : (
+                                <span className="text-xs text-gray-400">–</span>
                             )}
                         </td>
                         <td className={`px-4 ${isSelected ? 'py-4' : 'py-2'}`}>
@@ -512,6 +983,18 @@ export const ScenarioTable: React.FC<ScenarioTableProps> = ({
                                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 10h8m-8 4h5M5 5h14a2 2 0 012 2v10a2 2 0 01-2 2H7l-4 4V7a2 2 0 012-2z" />
                                     </svg>
                                 </button>
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        setHistoryScenarioId(scenario.id);
+                                    }}
+                                    className="text-gray-600 hover:text-gray-800 text-sm font-medium"
+                                    title="Edit history"
+                                >
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                    </svg>
+                                </button>
                                 <button
                                     onClick={(e) => {
                                         e.stopPropagation();
@@ -540,7 +1023,7 @@ export const ScenarioTable: React.FC<ScenarioTableProps> = ({
                         })
                         ) : (
                             <tr>
-                                <td colSpan={headers.length + 4} className="text-center py-4 text-gray-500">
+                                <td colSpan={headers.length + 5} className="text-center py-4 text-gray-500">
                                     No scenarios in this group.
                                 </td>
                             </tr>
@@ -580,6 +1063,96 @@ export const ScenarioTable: React.FC<ScenarioTableProps> = ({
                 </div>
             </div>
         )}
+        {historyScenarioId && (
+            <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+                <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 p-6">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                        Edit history for {historyScenarioId}
+                    </h3>
+                    {historyEvents.length > 0 ? (
+                        <div className="max-h-96 overflow-y-auto border rounded-md">
+                            <table className="w-full text-xs text-left text-gray-600">
+                                <thead className="text-gray-700 uppercase bg-gray-50 sticky top-0">
+                                    <tr>
+                                        <th className="px-3 py-2">Time</th>
+                                        <th className="px-3 py-2">Arm</th>
+                                        <th className="px-3 py-2">Field</th>
+                                        <th className="px-3 py-2">Change</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {historyEvents.map((event, index) => (
+                                        <tr key={`${event.timestamp}-${event.field}-${index}`} className="border-b align-top">
+                                            <td className="px-3 py-2 whitespace-nowrap">{new Date(event.timestamp).toLocaleString()}</td>
+                                            <td className="px-3 py-2">{event.arm ? ARM_LABELS[event.arm] ?? event.arm : '–'}</td>
+                                            <td className="px-3 py-2">
+                                                {event.field}
+                                                {event.source !== 'edit' && <span className="ml-1 text-gray-400">({event.source})</span>}
+                                            </td>
+                                            <td className="px-3 py-2 whitespace-pre-wrap break-words">
+                                                {event.field === 'comment'
+                                                    ? <>"{event.oldValue}" → "{event.newValue}"</>
+                                                    : <>{event.oldValue} → {event.newValue}</>}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    ) : (
+                        <p className="text-sm text-gray-500">No changes have been recorded for this scenario yet.</p>
+                    )}
+                    <div className="flex justify-end mt-6">
+                        <button
+                            onClick={() => setHistoryScenarioId(null)}
+                            className="px-4 py-2 bg-gray-200 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-300"
+                        >
+                            Close
+                        </button>
+                    </div>
+                </div>
+            </div>
+        )}
+        {flagReviewScenarioId && (
+            <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+                <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 p-6">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                        Monotonicity checks for {flagReviewScenarioId}
+                    </h3>
+                    <p className="text-sm text-gray-600 mb-4">
+                        These answers move against the expected direction for the factor. Adjust the sliders, or record why the reversal is intended.
+                    </p>
+                    <div className="space-y-4 max-h-96 overflow-y-auto">
+                        {reviewFlags.map(flag => (
+                            <div key={flag.id} className="border border-amber-200 bg-amber-50 rounded-md p-3">
+                                <p className="text-sm text-gray-800 mb-2">{describeFlag(flag)}</p>
+                                <textarea
+                                    value={rationaleDrafts[flag.id] ?? ''}
+                                    onChange={(e) => setRationaleDrafts(prev => ({ ...prev, [flag.id]: e.target.value }))}
+                                    rows={2}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-800 text-sm"
+                                    placeholder="Rationale for acknowledging this reversal"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex justify-end space-x-3 mt-6">
+                        <button
+                            onClick={closeFlagReview}
+                            className="px-4 py-2 bg-gray-200 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-300"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleFlagReviewSave}
+                            className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-300"
+                        >
+                            Save Acknowledgements
+                        </button>
+                    </div>
+                </div>
+            </div>
+        )}
         </>
     );
 };
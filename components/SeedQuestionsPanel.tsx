@@ -0,0 +1,110 @@
+import React, { useEffect, useId, useState } from 'react';
+import { validateSeedAnswer } from '../services/calibrationUtils';
+import { QUANTILE_FIELDS, QUANTILE_LABELS } from '../services/protocolUtils';
+import { QuantileAnswer, SeedAnswers, SeedQuestion } from '../types';
+
+interface SeedQuestionsPanelProps {
+    questions: SeedQuestion[];
+    answers: SeedAnswers;
+    onAnswersChange: (answers: SeedAnswers) => void;
+}
+
+type QuantileField = typeof QUANTILE_FIELDS[number];
+type QuantileDraft = Record<QuantileField, string>;
+
+const toDraft = (answer: QuantileAnswer | undefined): QuantileDraft =>
+    Object.fromEntries(QUANTILE_FIELDS.map(field => [field, answer ? String(answer[field]) : ''])) as QuantileDraft;
+
+const parseDraft = (draft: QuantileDraft): QuantileAnswer => {
+    const parse = (text: string): number => (text.trim() === '' ? NaN : Number(text));
+    return { protocol: 'quantile', p05: parse(draft.p05), p50: parse(draft.p50), p95: parse(draft.p95) };
+};
+
+interface SeedQuestionRowProps {
+    question: SeedQuestion;
+    answer: QuantileAnswer | undefined;
+    onCommit: (answer: QuantileAnswer) => void;
+}
+
+// Percentiles are kept as typed and stored once all three make a valid answer
+const SeedQuestionRow: React.FC<SeedQuestionRowProps> = ({ question, answer, onCommit }) => {
+    const [draft, setDraft] = useState<QuantileDraft>(() => toDraft(answer));
+    const errorId = useId();
+
+    // A change made elsewhere, such as opening another session, replaces whatever was being typed
+    const answerKey = answer ? QUANTILE_FIELDS.map(field => answer[field]).join(',') : '';
+    useEffect(() => {
+        setDraft(prev => (QUANTILE_FIELDS.map(field => Number(prev[field])).join(',') === answerKey ? prev : toDraft(answer)));
+    }, [answerKey]);
+
+    const started = QUANTILE_FIELDS.some(field => draft[field].trim() !== '');
+    const error = started ? validateSeedAnswer(parseDraft(draft)) : null;
+
+    const handleChange = (field: QuantileField, text: string) => {
+        const next = { ...draft, [field]: text };
+        setDraft(next);
+        const parsed = parseDraft(next);
+        if (validateSeedAnswer(parsed) === null) {
+            onCommit(parsed);
+        }
+    };
+
+    return (
+        <li className="py-3">
+            <p className="text-sm text-gray-800">
+                {question.question}
+                {question.units && <span className="text-gray-500"> ({question.units})</span>}
+            </p>
+            <div className="mt-2 flex flex-wrap items-end gap-3">
+                {QUANTILE_FIELDS.map(field => (
+                    <label key={field} className="flex flex-col text-xs">
+                        <span className="text-gray-500 uppercase">{QUANTILE_LABELS[field]}</span>
+                        <input
+                            type="number"
+                            value={draft[field]}
+                            aria-label={`${QUANTILE_LABELS[field]} percentile for ${question.question}`}
+                            aria-invalid={error !== null}
+                            aria-describedby={error ? errorId : undefined}
+                            onChange={(e) => handleChange(field, e.target.value)}
+                            className={`w-24 px-2 py-1 border rounded-md ${error ? 'border-red-500' : 'border-gray-300'}`}
+                        />
+                    </label>
+                ))}
+                {answer && !error && <span className="pb-1 text-xs text-green-700">Saved</span>}
+            </div>
+            {error && <p id={errorId} role="alert" className="mt-1 text-xs text-red-600">{error}</p>}
+        </li>
+    );
+};
+
+// Calibration questions with known answers, asked before the scenarios. The answers are never shown
+// here; the facilitator scores them when pooling experts.
+export const SeedQuestionsPanel: React.FC<SeedQuestionsPanelProps> = ({ questions, answers, onAnswersChange }) => {
+    const answered = questions.filter(question => answers[question.id]).length;
+
+    return (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <h2 className="text-xl font-semibold text-gray-800">Calibration Questions</h2>
+                <span className={`text-sm ${answered === questions.length ? 'text-green-700' : 'text-amber-700'}`}>
+                    {answered} of {questions.length} answered
+                </span>
+            </div>
+            <p className="mt-2 text-sm text-gray-600">
+                Please answer these before the scenarios. Each has a known answer, such as a past trial result, which
+                is used to weigh how well your percentiles capture the truth. Give a 5th percentile you think the true
+                value is only 5% likely to fall below, a median, and a 95th percentile it is only 5% likely to exceed.
+            </p>
+            <ol className="mt-2 divide-y divide-gray-100">
+                {questions.map(question => (
+                    <SeedQuestionRow
+                        key={question.id}
+                        question={question}
+                        answer={answers[question.id]}
+                        onCommit={(answer) => onAnswersChange({ ...answers, [question.id]: answer })}
+                    />
+                ))}
+            </ol>
+        </div>
+    );
+};
@@ -0,0 +1,340 @@
+import * as Plot from '@observablehq/plot';
+import React, { useMemo, useState } from 'react';
+import {
+    buildConditionalProbabilityTable,
+    CPTFormat,
+    DEFAULT_CPT_BIN_EDGES,
+    generateCPTCSV,
+    generateCPTDNE,
+    generateCPTXDSL,
+    parseBinEdges,
+    validateBinEdges
+} from '../services/cptUtils';
+import { getScenarioDataColumns } from '../services/csvUtils';
+import { inferDesignFactors } from '../services/designUtils';
+import { downloadFile } from '../services/downloadUtils';
+import { ARM_PALETTES, ARMS, getArmConfig, REFERENCE_ARM } from '../services/projectUtils';
+import {
+    buildPredictionGrid,
+    crossValidateSurrogate,
+    fitSurrogateModel,
+    generatePredictionGridCSV,
+    PredictorEncoding,
+    summariseHeldOut
+} from '../services/surrogateUtils';
+import { ArmId, FactorOrdering, FittedDistribution, Scenario, UserElicitationData } from '../types';
+import { DownloadIcon } from './icons/DownloadIcon';
+import { PlotFigure } from './PlotFigure';
+
+interface SurrogatePanelProps {
+    scenarios: Scenario[];
+    userElicitationData: UserElicitationData;
+    factorOrderings: FactorOrdering[];
+}
+
+const ENCODING_LABELS: Record<PredictorEncoding, string> = {
+    numeric: 'numeric trend',
+    ordinal: 'ordered trend',
+    categorical: 'categories',
+};
+
+// The grid table shows this many rows; the CSV holds them all
+const GRID_PREVIEW_ROWS = 200;
+
+const CPT_FILES: Record<CPTFormat, { label: string; fileName: string; mimeType: string }> = {
+    csv: { label: 'CPT CSV', fileName: 'cpt.csv', mimeType: 'text/csv;charset=utf-8;' },
+    xdsl: { label: 'GeNIe (.xdsl)', fileName: 'cpt.xdsl', mimeType: 'application/xml' },
+    dne: { label: 'Netica (.dne)', fileName: 'cpt.dne', mimeType: 'text/plain;charset=utf-8;' },
+};
+
+const formatRange = (fitted: FittedDistribution): string =>
+    `${fitted.quantiles.p50.toFixed(1)}% (${fitted.quantiles.p05.toFixed(1)}–${fitted.quantiles.p95.toFixed(1)})`;
+
+export const SurrogatePanel: React.FC<SurrogatePanelProps> = ({
+    scenarios,
+    userElicitationData,
+    factorOrderings
+}) => {
+    const [armId, setArmId] = useState<ArmId>(REFERENCE_ARM.id);
+    const [binEdgesText, setBinEdgesText] = useState(DEFAULT_CPT_BIN_EDGES.join(', '));
+    const arm = getArmConfig(armId);
+
+    const fit = useMemo(() => {
+        try {
+            const model = fitSurrogateModel(scenarios, userElicitationData, factorOrderings);
+            return { model, heldOut: crossValidateSurrogate(model, scenarios, userElicitationData, factorOrderings), error: null };
+        } catch (error) {
+            return { model: null, heldOut: [], error: error instanceof Error ? error.message : String(error) };
+        }
+    }, [scenarios, userElicitationData, factorOrderings]);
+
+    const grid = useMemo(() => {
+        if (!fit.model) return { rows: [], error: null };
+        try {
+            return { rows: buildPredictionGrid(fit.model, scenarios, factorOrderings), error: null };
+        } catch (error) {
+            return { rows: [], error: error instanceof Error ? error.message : String(error) };
+        }
+    }, [fit.model, scenarios, factorOrderings]);
+
+    const cpt = useMemo(() => {
+        const edges = parseBinEdges(binEdgesText);
+        const edgeError = validateBinEdges(edges);
+        if (edgeError) return { table: null, error: edgeError };
+        if (grid.rows.length === 0) return { table: null, error: null };
+        try {
+            const factors = inferDesignFactors(scenarios, factorOrderings);
+            return { table: buildConditionalProbabilityTable(grid.rows, factors, userElicitationData, edges), error: null };
+        } catch (error) {
+            return { table: null, error: error instanceof Error ? error.message : String(error) };
+        }
+    }, [binEdgesText, grid.rows, scenarios, factorOrderings, userElicitationData]);
+
+    const gridColumns = useMemo(() => getScenarioDataColumns(grid.rows.map(row => row.scenario)), [grid.rows]);
+
+    const plotOptions = useMemo(() => {
+        const points = fit.heldOut.map(p => ({
+            id: p.scenario.id,
+            elicited: p.elicited[armId].quantiles.p50,
+            predicted: p.predicted[armId].quantiles.p50,
+            low: p.predicted[armId].quantiles.p05,
+            high: p.predicted[armId].quantiles.p95,
+        }));
+        const limit = Math.max(10, ...points.map(p => Math.max(p.elicited, p.high)));
+        const colour = ARM_PALETTES[arm.colour].hex;
+        return {
+            height: 320,
+            marginLeft: 48,
+            x: { label: 'Elicited median (%)', domain: [0, limit] },
+            y: { label: 'Held-out prediction (%)', domain: [0, limit], grid: true },
+            marks: [
+                Plot.line([[0, 0], [limit, limit]], { stroke: '#9ca3af', strokeDasharray: '4,4' }),
+                Plot.ruleX(points, { x: 'elicited', y1: 'low', y2: 'high', stroke: colour, strokeOpacity: 0.4 }),
+                Plot.dot(points, { x: 'elicited', y: 'predicted', fill: colour, r: 4, title: 'id' }),
+            ],
+        };
+    }, [fit.heldOut, armId, arm.colour]);
+
+    const handleDownload = () => {
+        try {
+            downloadFile(generatePredictionGridCSV(grid.rows), 'prediction_grid.csv', 'text/csv;charset=utf-8;');
+        } catch (error) {
+            console.error('Failed to generate prediction grid CSV:', error);
+            alert('Error generating file for download.');
+        }
+    };
+
+    const handleCPTDownload = (format: CPTFormat) => {
+        if (!cpt.table) return;
+        try {
+            const content = format === 'csv' ? generateCPTCSV(cpt.table) : format === 'xdsl' ? generateCPTXDSL(cpt.table) : generateCPTDNE(cpt.table);
+            downloadFile(content, CPT_FILES[format].fileName, CPT_FILES[format].mimeType);
+        } catch (error) {
+            console.error('Failed to generate conditional probability table:', error);
+            alert('Error generating file for download.');
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-8">
+            <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+                <h2 className="text-xl font-semibold text-gray-800 mb-2">Surrogate Model</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                    A ridge regression of each arm's fitted lower bound, mode and upper bound (on the logit scale) on the factor
+                    columns of the scenarios worked on so far. It predicts a distribution for every combination of levels,
+                    including those that were never elicited.
+                </p>
+                {fit.error || !fit.model ? (
+                    <p className="text-sm text-gray-500">{fit.error}</p>
+                ) : (
+                    <>
+                        <p className="text-sm text-gray-700 mb-2">
+                            Fitted on {fit.model.trainingIds.length} scenarios.{' '}
+                            {fit.model.predictors.length === 0
+                                ? 'No factor varies across them yet, so every prediction is their average.'
+                                : <>Factors: {fit.model.predictors.map(p => `${p.column} (${ENCODING_LABELS[p.encoding]})`).join(', ')}.</>}
+                        </p>
+                        <table className="w-full text-sm text-left text-gray-600">
+                            <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                                <tr>
+                                    <th className="px-4 py-2">Arm</th>
+                                    <th className="px-4 py-2">Median error</th>
+                                    <th className="px-4 py-2">5th percentile error</th>
+                                    <th className="px-4 py-2">95th percentile error</th>
+                                    <th className="px-4 py-2">Medians inside predicted 90%</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {ARMS.map(({ id, label, colour }) => {
+                                    const summary = summariseHeldOut(fit.heldOut, id);
+                                    return (
+                                        <tr key={id} className="border-b">
+                                            <td className="px-4 py-2 font-medium" style={{ color: ARM_PALETTES[colour].hex }}>{label}</td>
+                                            <td className="px-4 py-2">±{summary.rmseP50.toFixed(1)} pts</td>
+                                            <td className="px-4 py-2">±{summary.rmseP05.toFixed(1)} pts</td>
+                                            <td className="px-4 py-2">±{summary.rmseP95.toFixed(1)} pts</td>
+                                            <td className="px-4 py-2">{Math.round(summary.coverage * 100)}%</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                        <p className="mt-2 text-xs text-gray-500">
+                            Errors are root mean square differences between each elicited scenario and its prediction from a model fitted without it.
+                        </p>
+                    </>
+                )}
+            </div>
+
+            {fit.model && (
+                <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+                    <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                        <h2 className="text-xl font-semibold text-gray-800">Held-out Check</h2>
+                        <select
+                            value={armId}
+                            onChange={(e) => setArmId(e.target.value)}
+                            className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        >
+                            {ARMS.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+                        </select>
+                    </div>
+                    <PlotFigure options={plotOptions} />
+                    <p className="mt-2 text-xs text-gray-500">
+                        Each point is an elicited scenario predicted by a model fitted without it; bars show the predicted 90% range.
+                        Points on the dashed line are predicted exactly.
+                    </p>
+                    <div className="mt-4 overflow-x-auto max-h-80 overflow-y-auto">
+                        <table className="w-full text-sm text-left text-gray-600">
+                            <thead className="text-xs text-gray-700 uppercase bg-gray-50 sticky top-0">
+                                <tr>
+                                    <th className="px-4 py-2">Scenario</th>
+                                    <th className="px-4 py-2">Group</th>
+                                    <th className="px-4 py-2">Elicited median (90%)</th>
+                                    <th className="px-4 py-2">Predicted median (90%)</th>
+                                    <th className="px-4 py-2">Difference</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {fit.heldOut.map(p => (
+                                    <tr key={p.scenario.id} className="border-b">
+                                        <td className="px-4 py-2 font-medium text-gray-800">{p.scenario.id}</td>
+                                        <td className="px-4 py-2">{p.scenario.scenario_group}</td>
+                                        <td className="px-4 py-2">{formatRange(p.elicited[armId])}</td>
+                                        <td className="px-4 py-2">{formatRange(p.predicted[armId])}</td>
+                                        <td className="px-4 py-2">
+                                            {(p.predicted[armId].quantiles.p50 - p.elicited[armId].quantiles.p50).toFixed(1)} pts
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            {fit.model && (
+                <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+                    <div className="flex items-center justify-between mb-4">
+                        <h2 className="text-xl font-semibold text-gray-800">Prediction Grid</h2>
+                        <button
+                            onClick={handleDownload}
+                            disabled={grid.rows.length === 0}
+                            className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-green-700 bg-green-100 hover:bg-green-200 disabled:opacity-50"
+                        >
+                            <DownloadIcon className="w-4 h-4 mr-1" />
+                            Prediction Grid CSV
+                        </button>
+                    </div>
+                    {grid.error ? (
+                        <p className="text-sm text-red-600">{grid.error}</p>
+                    ) : (
+                        <>
+                            <p className="text-sm text-gray-700 mb-2">
+                                {grid.rows.length} combinations of the levels in the scenario table, {grid.rows.filter(row => row.elicited).length} of them elicited.
+                            </p>
+                            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                                <table className="w-full text-sm text-left text-gray-600">
+                                    <thead className="text-xs text-gray-700 uppercase bg-gray-50 sticky top-0">
+                                        <tr>
+                                            <th className="px-4 py-2">Scenario</th>
+                                            {gridColumns.map(column => <th key={column} className="px-4 py-2">{column}</th>)}
+                                            {ARMS.map(a => <th key={a.id} className="px-4 py-2">{a.label} median (90%)</th>)}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {grid.rows.slice(0, GRID_PREVIEW_ROWS).map(row => (
+                                            <tr key={row.scenario.id} className={`border-b ${row.elicited ? 'bg-blue-50' : ''}`}>
+                                                <td className="px-4 py-2 font-medium text-gray-800">{row.scenario.id}</td>
+                                                {gridColumns.map(column => (
+                                                    <td
+                                                        key={column}
+                                                        className={`px-4 py-2 ${row.outsideTraining.includes(column) ? 'text-amber-700 italic' : ''}`}
+                                                    >
+                                                        {row.scenario[column]}
+                                                    </td>
+                                                ))}
+                                                {ARMS.map(a => <td key={a.id} className="px-4 py-2">{formatRange(row.predicted[a.id])}</td>)}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                            <p className="mt-2 text-xs text-gray-500">
+                                Elicited combinations are shaded blue. Levels in italics never appear among the elicited scenarios, so treat those predictions with care.
+                                {grid.rows.length > GRID_PREVIEW_ROWS && ` Showing the first ${GRID_PREVIEW_ROWS} rows; the CSV holds all of them.`}
+                            </p>
+                        </>
+                    )}
+                </div>
+            )}
+
+            {fit.model && !grid.error && grid.rows.length > 0 && (
+                <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+                    <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                        <h2 className="text-xl font-semibold text-gray-800">Bayesian Network CPT</h2>
+                        <div className="flex flex-wrap gap-2">
+                            {(Object.keys(CPT_FILES) as CPTFormat[]).map(format => (
+                                <button
+                                    key={format}
+                                    onClick={() => handleCPTDownload(format)}
+                                    disabled={!cpt.table}
+                                    className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-green-700 bg-green-100 hover:bg-green-200 disabled:opacity-50"
+                                >
+                                    <DownloadIcon className="w-4 h-4 mr-1" />
+                                    {CPT_FILES[format].label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <p className="text-sm text-gray-600 mb-3">
+                        Discretises each arm's yield loss into bins for every combination of the factor levels, as a conditional
+                        probability table with the factor columns as parents. Elicited combinations use the expert's own
+                        distributions; the rest are filled from the surrogate model and flagged.
+                    </p>
+                    <label className="flex flex-col text-sm text-gray-700">
+                        <span className="mb-1">Yield-loss bin edges (%)</span>
+                        <input
+                            type="text"
+                            value={binEdgesText}
+                            onChange={(e) => setBinEdgesText(e.target.value)}
+                            aria-invalid={cpt.error !== null}
+                            className={`max-w-md px-3 py-2 border rounded-md ${cpt.error ? 'border-red-500' : 'border-gray-300'}`}
+                        />
+                    </label>
+                    {cpt.error ? (
+                        <p role="alert" className="mt-1 text-sm text-red-600">{cpt.error}</p>
+                    ) : cpt.table && (
+                        <p className="mt-2 text-sm text-gray-700">
+                            {cpt.table.edges.length - 1} bins, {cpt.table.parents.length} parents and {cpt.table.rows.length} parent
+                            combinations, {cpt.table.rows.filter(row => !row.elicited).length} of them not elicited.
+                        </p>
+                    )}
+                    <p className="mt-2 text-xs text-gray-500">
+                        The CSV has an <code>elicited</code> column; the GeNIe and Netica files mark predicted combinations in comments.
+                        Parent nodes get uniform priors, to be replaced in the network.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,5 +1,7 @@
 import React, { useEffect, useRef, useState } from 'react';
+import { ARM_PALETTES } from '../services/projectUtils';
 import { getDistributionParamTooltip } from '../services/tooltipService';
+import { ArmColour } from '../types';
 import { Tooltip } from './Tooltip';
 
 interface TripleHandleSliderProps {
@@ -9,12 +11,26 @@ interface TripleHandleSliderProps {
     minBound?: number;
     maxBound?: number;
     disabled?: boolean;
-    color?: 'blue' | 'green';
+    color?: ArmColour;
     onChange: (values: { min: number; mode: number; max: number }) => void;
     yieldValue?: number;
     showLabels?: boolean;
+    label?: string; // Names the handles for screen readers, e.g. "Unsprayed yield loss"
+    onFocus?: () => void;
 }
 
+type Handle = 'min' | 'mode' | 'max';
+
+const HANDLE_NAMES: Record<Handle, string> = {
+    min: 'minimum',
+    mode: 'most likely',
+    max: 'maximum',
+};
+
+// Arrow keys move a handle by one step, PageUp/PageDown by ten
+const KEY_STEP = 1;
+const PAGE_STEP = 10;
+
 export const TripleHandleSlider: React.FC<TripleHandleSliderProps> = ({
     min,
     mode,
@@ -25,27 +41,14 @@ export const TripleHandleSlider: React.FC<TripleHandleSliderProps> = ({
     color = 'blue',
     onChange,
     yieldValue,
-    showLabels = true
+    showLabels = true,
+    label = 'Yield loss',
+    onFocus
 }) => {
     const sliderRef = useRef<HTMLDivElement>(null);
-    const [dragging, setDragging] = useState<'min' | 'mode' | 'max' | null>(null);
+    const [dragging, setDragging] = useState<Handle | null>(null);
     
-    const colorClasses = {
-        blue: {
-            track: 'bg-blue-200',
-            range: 'bg-blue-400',
-            handle: 'bg-blue-600 hover:bg-blue-700 border-blue-700',
-            text: 'text-blue-600'
-        },
-        green: {
-            track: 'bg-green-200',
-            range: 'bg-green-400',
-            handle: 'bg-green-600 hover:bg-green-700 border-green-700',
-            text: 'text-green-600'
-        }
-    };
-
-    const colors = colorClasses[color];
+    const colors = ARM_PALETTES[color];
 
     const valueToPercent = (value: number) => {
         return ((value - minBound) / (maxBound - minBound)) * 100;
@@ -55,7 +58,44 @@ export const TripleHandleSlider: React.FC<TripleHandleSliderProps> = ({
         return Math.round(minBound + (percent / 100) * (maxBound - minBound));
     };
 
-    const handleMouseDown = (handle: 'min' | 'mode' | 'max') => (e: React.MouseEvent) => {
+    // Each handle moves only between its neighbours, which keeps min ≤ mode ≤ max
+    const getHandleLimits = (handle: Handle): { lower: number; upper: number } => {
+        if (handle === 'min') return { lower: minBound, upper: mode };
+        if (handle === 'mode') return { lower: min, upper: max };
+        return { lower: mode, upper: maxBound };
+    };
+
+    const moveHandle = (handle: Handle, value: number) => {
+        const { lower, upper } = getHandleLimits(handle);
+        const clamped = Math.max(lower, Math.min(value, upper));
+        const values = { min, mode, max, [handle]: clamped };
+        if (values.min !== min || values.mode !== mode || values.max !== max) {
+            onChange(values);
+        }
+    };
+
+    const handleKeyDown = (handle: Handle) => (e: React.KeyboardEvent) => {
+        if (disabled) return;
+        const current = { min, mode, max }[handle];
+        const { lower, upper } = getHandleLimits(handle);
+        // Typed values may carry decimals; rounding keeps steps free of floating-point noise
+        const step = (delta: number) => Number((current + delta).toFixed(6));
+        const targets: Record<string, number> = {
+            ArrowLeft: step(-KEY_STEP),
+            ArrowDown: step(-KEY_STEP),
+            ArrowRight: step(KEY_STEP),
+            ArrowUp: step(KEY_STEP),
+            PageDown: step(-PAGE_STEP),
+            PageUp: step(PAGE_STEP),
+            Home: lower,
+            End: upper,
+        };
+        if (!(e.key in targets)) return;
+        e.preventDefault();
+        moveHandle(handle, targets[e.key]);
+    };
+
+    const handleMouseDown = (handle: Handle) => (e: React.MouseEvent) => {
         if (disabled) return;
         e.preventDefault();
         setDragging(handle);
@@ -66,23 +106,7 @@ export const TripleHandleSlider: React.FC<TripleHandleSliderProps> = ({
 
         const rect = sliderRef.current.getBoundingClientRect();
         const percent = Math.max(0, Math.min(100, ((clientX - rect.left) / rect.width) * 100));
-        const newValue = percentToValue(percent);
-
-        let newMin = min;
-        let newMode = mode;
-        let newMax = max;
-
-        if (dragging === 'min') {
-            newMin = Math.max(minBound, Math.min(newValue, mode));
-        } else if (dragging === 'mode') {
-            newMode = Math.max(min, Math.min(newValue, max));
-        } else if (dragging === 'max') {
-            newMax = Math.min(maxBound, Math.max(newValue, mode));
-        }
-
-        if (newMin !== min || newMode !== mode || newMax !== max) {
-            onChange({ min: newMin, mode: newMode, max: newMax });
-        }
+        moveHandle(dragging, percentToValue(percent));
     };
 
     useEffect(() => {
@@ -126,6 +150,24 @@ export const TripleHandleSlider: React.FC<TripleHandleSliderProps> = ({
         return baselineYield * (1 - lossPercentage / 100);
     };
 
+    const handleAccessibility = (handle: Handle) => {
+        const value = { min, mode, max }[handle];
+        const { lower, upper } = getHandleLimits(handle);
+        return {
+            role: 'slider',
+            tabIndex: 0,
+            'aria-label': `${label}, ${HANDLE_NAMES[handle]}`,
+            'aria-valuemin': lower,
+            'aria-valuemax': upper,
+            'aria-valuenow': value,
+            'aria-valuetext': yieldValue ? `${value}%, ${calculateYieldImpact(value, yieldValue).toFixed(1)} tonnes` : `${value}%`,
+            'aria-orientation': 'horizontal' as const,
+            'aria-disabled': disabled,
+            onKeyDown: handleKeyDown(handle),
+            onFocus,
+        };
+    };
+
     return (
         <div className={showLabels ? 'space-y-2' : ''}>
             {/* Slider track */}
@@ -144,8 +186,9 @@ export const TripleHandleSlider: React.FC<TripleHandleSliderProps> = ({
 
                 {/* Min handle */}
                 <div
-                    className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-4 h-4 rounded-full ${colors.handle} border-2 cursor-grab active:cursor-grabbing shadow-md ${dragging === 'min' ? 'ring-2 ring-offset-2 ring-current scale-110' : ''} ${disabled ? 'cursor-not-allowed' : ''}`}
+                    className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-4 h-4 rounded-full ${colors.handle} border-2 cursor-grab active:cursor-grabbing shadow-md focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-current ${dragging === 'min' ? 'ring-2 ring-offset-2 ring-current scale-110' : ''} ${disabled ? 'cursor-not-allowed' : ''}`}
                     style={{ left: `${valueToPercent(min)}%` }}
+                    {...handleAccessibility('min')}
                     onMouseDown={handleMouseDown('min')}
                     onTouchStart={(e) => {
                         if (!disabled) {
@@ -157,8 +200,9 @@ export const TripleHandleSlider: React.FC<TripleHandleSliderProps> = ({
 
                 {/* Mode handle */}
                 <div
-                    className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-5 h-5 rounded-full ${colors.handle} border-2 cursor-grab active:cursor-grabbing shadow-md ${dragging === 'mode' ? 'ring-2 ring-offset-2 ring-current scale-110' : ''} ${disabled ? 'cursor-not-allowed' : ''}`}
+                    className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-5 h-5 rounded-full ${colors.handle} border-2 cursor-grab active:cursor-grabbing shadow-md focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-current ${dragging === 'mode' ? 'ring-2 ring-offset-2 ring-current scale-110' : ''} ${disabled ? 'cursor-not-allowed' : ''}`}
                     style={{ left: `${valueToPercent(mode)}%` }}
+                    {...handleAccessibility('mode')}
                     onMouseDown={handleMouseDown('mode')}
                     onTouchStart={(e) => {
                         if (!disabled) {
@@ -170,8 +214,9 @@ export const TripleHandleSlider: React.FC<TripleHandleSliderProps> = ({
 
                 {/* Max handle */}
                 <div
-                    className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-4 h-4 rounded-full ${colors.handle} border-2 cursor-grab active:cursor-grabbing shadow-md ${dragging === 'max' ? 'ring-2 ring-offset-2 ring-current scale-110' : ''} ${disabled ? 'cursor-not-allowed' : ''}`}
+                    className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-4 h-4 rounded-full ${colors.handle} border-2 cursor-grab active:cursor-grabbing shadow-md focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-current ${dragging === 'max' ? 'ring-2 ring-offset-2 ring-current scale-110' : ''} ${disabled ? 'cursor-not-allowed' : ''}`}
                     style={{ left: `${valueToPercent(max)}%` }}
+                    {...handleAccessibility('max')}
                     onMouseDown={handleMouseDown('max')}
                     onTouchStart={(e) => {
                         if (!disabled) {
@@ -1,6 +1,6 @@
-import defaultScenarioCSV from './sclerotiniLM elicitation_251110.csv?raw';
 import { parseCSV, ParsedCSVData } from './services/csvUtils';
-import { Scenario, UserElicitationData } from './types';
+import { ACTIVE_PROJECT, ACTIVE_PROJECT_CSV } from './services/projectUtils';
+import { FactorOrdering, Scenario, UserElicitationData } from './types';
 
 interface DefaultElicitationData extends ParsedCSVData {
     scenarios: Scenario[];
@@ -9,7 +9,7 @@ interface DefaultElicitationData extends ParsedCSVData {
 
 const buildDefaultData = (): DefaultElicitationData => {
     try {
-        return parseCSV(defaultScenarioCSV, []);
+        return parseCSV(ACTIVE_PROJECT_CSV, []);
     } catch (error) {
         console.error('Failed to parse default scenario CSV.', error);
         return {
@@ -24,3 +24,6 @@ export const DEFAULT_ELICITATION_DATA = buildDefaultData();
 export const INITIAL_SCENARIOS: Scenario[] = DEFAULT_ELICITATION_DATA.scenarios;
 export const INITIAL_USER_ELICITATION_DATA: UserElicitationData = DEFAULT_ELICITATION_DATA.userElicitationData;
 export const INITIAL_YIELD_COLUMN: string | null = DEFAULT_ELICITATION_DATA.yieldColumn;
+
+// Expected direction of yield loss along each factor, from the project configuration
+export const DEFAULT_FACTOR_ORDERINGS: FactorOrdering[] = ACTIVE_PROJECT.factorOrderings;
@@ -1,3 +1,5 @@
+/// <reference types="vite/client" />
+
 declare module '*.csv?raw' {
     const content: string;
     export default content;
@@ -2,6 +2,9 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { ACTIVE_PROJECT } from './services/projectUtils';
+
+document.title = ACTIVE_PROJECT.title;
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
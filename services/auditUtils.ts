@@ -0,0 +1,117 @@
+import { ArmId, AuditEvent, Distribution, Scenario, UserDistribution, UserElicitationData } from '../types';
+import { serializeCSV } from './csvUtils';
+import { getArmDefaults, getEmptyUserDistribution, userDistributionToDistribution } from './distributionUtils';
+import { formatProtocolAnswer } from './protocolUtils';
+import { ARMS } from './projectUtils';
+
+// A field's changes less than this far apart are logged as one event from the first old value to the last
+// new value, so the trail records settled values rather than each step in between
+export const AUDIT_COALESCE_MS = 2000;
+
+const DISTRIBUTION_FIELDS: (keyof Distribution)[] = ['min', 'mode', 'max', 'confidence'];
+
+/**
+ * Events for each field of an arm whose effective value (defaults filled in) changed, and for
+ * the percentile or chips answer the values were fitted from
+ */
+export function diffDistributionEvents(
+    scenarioId: string,
+    arm: ArmId,
+    before: UserDistribution | undefined,
+    after: UserDistribution | undefined,
+    timestamp: string,
+    source: AuditEvent['source'] = 'edit'
+): AuditEvent[] {
+    const defaults = getArmDefaults(arm);
+    const oldDist = userDistributionToDistribution(before ?? getEmptyUserDistribution(), defaults);
+    const newDist = userDistributionToDistribution(after ?? getEmptyUserDistribution(), defaults);
+
+    const events: AuditEvent[] = DISTRIBUTION_FIELDS
+        .filter(field => oldDist[field] !== newDist[field])
+        .map(field => ({ timestamp, scenarioId, arm, field, oldValue: oldDist[field], newValue: newDist[field], source }));
+
+    const oldAnswer = before?.answer ? formatProtocolAnswer(before.answer) : null;
+    const newAnswer = after?.answer ? formatProtocolAnswer(after.answer) : null;
+    if (oldAnswer !== newAnswer) {
+        events.push({ timestamp, scenarioId, arm, field: 'answer', oldValue: oldAnswer, newValue: newAnswer, source });
+    }
+    return events;
+}
+
+export function commentEvent(
+    scenarioId: string,
+    before: string,
+    after: string,
+    timestamp: string,
+    source: AuditEvent['source'] = 'edit'
+): AuditEvent[] {
+    return before === after ? [] : [{ timestamp, scenarioId, arm: null, field: 'comment', oldValue: before, newValue: after, source }];
+}
+
+/**
+ * Every distribution and comment change between two states, e.g. across an undo step
+ */
+export function diffStateEvents(
+    before: { scenarios: Scenario[]; userElicitationData: UserElicitationData },
+    after: { scenarios: Scenario[]; userElicitationData: UserElicitationData },
+    timestamp: string,
+    source: AuditEvent['source']
+): AuditEvent[] {
+    const commentsBefore = new Map(before.scenarios.map(s => [s.id, s.comment ?? '']));
+    const commentsAfter = new Map(after.scenarios.map(s => [s.id, s.comment ?? '']));
+    const scenarioIds = Array.from(new Set([...commentsBefore.keys(), ...commentsAfter.keys()]));
+
+    return scenarioIds.flatMap(scenarioId => [
+        ...ARMS.flatMap(({ id: arm }) => diffDistributionEvents(
+            scenarioId, arm, before.userElicitationData[scenarioId]?.[arm], after.userElicitationData[scenarioId]?.[arm], timestamp, source
+        )),
+        ...(commentsBefore.has(scenarioId) && commentsAfter.has(scenarioId)
+            ? commentEvent(scenarioId, commentsBefore.get(scenarioId)!, commentsAfter.get(scenarioId)!, timestamp, source)
+            : []),
+    ]);
+}
+
+const sameField = (a: AuditEvent, b: AuditEvent) =>
+    a.scenarioId === b.scenarioId && a.arm === b.arm && a.field === b.field && a.source === b.source;
+
+/**
+ * Append events to the trail, folding rapid repeat changes to a field into its latest event.
+ * An event whose folded value ends where it started is dropped.
+ */
+export function appendAuditEvents(trail: AuditEvent[], events: AuditEvent[]): AuditEvent[] {
+    const updated = [...trail];
+    for (const event of events) {
+        let index = -1;
+        for (let i = updated.length - 1; i >= 0; i--) {
+            if (sameField(updated[i], event)) {
+                index = i;
+                break;
+            }
+        }
+        const previous = index === -1 ? null : updated[index];
+        if (previous && Date.parse(event.timestamp) - Date.parse(previous.timestamp) < AUDIT_COALESCE_MS) {
+            if (previous.oldValue === event.newValue) {
+                updated.splice(index, 1);
+            } else {
+                updated[index] = { ...previous, timestamp: event.timestamp, newValue: event.newValue };
+            }
+        } else {
+            updated.push(event);
+        }
+    }
+    return updated;
+}
+
+export function generateAuditCSV(events: AuditEvent[]): string {
+    const headers = ['timestamp', 'scenario_id', 'arm', 'field', 'old_value', 'new_value', 'source'];
+    const rows = events.map(event => [
+        event.timestamp,
+        event.scenarioId,
+        event.arm ?? '',
+        event.field,
+        event.oldValue ?? '',
+        event.newValue ?? '',
+        event.source,
+    ]);
+    return serializeCSV([headers, ...rows]);
+}
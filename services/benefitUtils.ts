@@ -0,0 +1,125 @@
+import { randomBeta, randomLcg } from 'd3';
+import { ArmId, DistributionQuantiles, FittedDistribution, UserScenarioDistribution } from '../types';
+import { fitScenarioDistribution, QUANTILE_PROBABILITIES } from './fittingUtils';
+import { ARMS, REFERENCE_ARM } from './projectUtils';
+
+// How draws of the reference arm and a compared arm are paired. Comonotonic pairs equal quantiles,
+// matching the table's rule that a treated paddock never loses more than the same paddock untreated.
+export type BenefitCoupling = 'comonotonic' | 'independent';
+
+export const BENEFIT_SAMPLE_SIZE = 4000;
+export const DEFAULT_BENEFIT_THRESHOLD = 5;
+export const DEFAULT_BENEFIT_COUPLING: BenefitCoupling = 'comonotonic';
+
+export interface BenefitSummary {
+    mean: number;
+    sd: number;
+    quantiles: DistributionQuantiles;
+    threshold: number;
+    probabilityExceeds: number; // P(benefit > threshold)
+}
+
+/**
+ * Deterministic seed in [0, 1) for a string, so each scenario draws the same samples every render
+ */
+export function seedFromString(value: string): number {
+    let hash = 2166136261;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return (hash >>> 0) / 4294967296;
+}
+
+/**
+ * Draw samples from a fitted distribution on the outcome scale
+ */
+export function sampleFitted(fitted: FittedDistribution, count: number, random: () => number): number[] {
+    const width = fitted.upper - fitted.lower;
+    const draw = randomBeta.source(random)(fitted.alpha, fitted.beta);
+    return Array.from({ length: count }, () => fitted.lower + width * draw());
+}
+
+// Samples are cached per user distribution object; edits create new objects so stale entries fall away
+const sampleCache = new WeakMap<UserScenarioDistribution, Map<string, Record<ArmId, number[]>>>();
+
+/**
+ * Monte Carlo samples of every arm's loss for one scenario. The arms draw in order from one
+ * generator seeded by the scenario id, so adding an arm at the end leaves the others unchanged.
+ */
+export function sampleArms(
+    scenarioId: string,
+    userScenario: UserScenarioDistribution,
+    coupling: BenefitCoupling = DEFAULT_BENEFIT_COUPLING,
+    sampleSize = BENEFIT_SAMPLE_SIZE
+): Record<ArmId, number[]> {
+    const cacheKey = `${scenarioId}|${coupling}|${sampleSize}`;
+    const cached = sampleCache.get(userScenario)?.get(cacheKey);
+    if (cached) {
+        return cached;
+    }
+
+    const fitted = fitScenarioDistribution(userScenario);
+    const random = randomLcg(seedFromString(scenarioId));
+    const samples: Record<ArmId, number[]> = {};
+    ARMS.forEach(arm => {
+        samples[arm.id] = sampleFitted(fitted[arm.id], sampleSize, random);
+        if (coupling === 'comonotonic') {
+            samples[arm.id].sort((a, b) => a - b);
+        }
+    });
+
+    if (!sampleCache.has(userScenario)) {
+        sampleCache.set(userScenario, new Map());
+    }
+    sampleCache.get(userScenario)!.set(cacheKey, samples);
+    return samples;
+}
+
+/**
+ * Monte Carlo samples of an arm's benefit (reference arm loss minus the arm's loss) for one scenario
+ */
+export function sampleBenefit(
+    scenarioId: string,
+    userScenario: UserScenarioDistribution,
+    armId: ArmId,
+    coupling: BenefitCoupling = DEFAULT_BENEFIT_COUPLING,
+    sampleSize = BENEFIT_SAMPLE_SIZE
+): number[] {
+    const samples = sampleArms(scenarioId, userScenario, coupling, sampleSize);
+    const reference = samples[REFERENCE_ARM.id];
+    return samples[armId].map((value, index) => reference[index] - value);
+}
+
+/**
+ * Empirical quantile of a set of samples (linear interpolation between order statistics)
+ */
+export function sampleQuantile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return NaN;
+    const position = (sorted.length - 1) * p;
+    const lowerIndex = Math.floor(position);
+    const upperIndex = Math.min(sorted.length - 1, lowerIndex + 1);
+    return sorted[lowerIndex] + (sorted[upperIndex] - sorted[lowerIndex]) * (position - lowerIndex);
+}
+
+/**
+ * Summary statistics of benefit samples, including P(benefit > threshold)
+ */
+export function summariseBenefit(samples: number[], threshold: number): BenefitSummary {
+    const sorted = [...samples].sort((a, b) => a - b);
+    const mean = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+    const variance = samples.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(1, samples.length - 1);
+
+    const quantiles = {} as DistributionQuantiles;
+    (Object.keys(QUANTILE_PROBABILITIES) as (keyof DistributionQuantiles)[]).forEach(key => {
+        quantiles[key] = sampleQuantile(sorted, QUANTILE_PROBABILITIES[key]);
+    });
+
+    return {
+        mean,
+        sd: Math.sqrt(variance),
+        quantiles,
+        threshold,
+        probabilityExceeds: samples.filter(value => value > threshold).length / samples.length,
+    };
+}
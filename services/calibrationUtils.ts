@@ -0,0 +1,133 @@
+import { QuantileAnswer, SeedAnswers, SeedQuestion } from '../types';
+import { formatCSVNumber, serializeCSV } from './csvUtils';
+import { QUANTILE_FIELDS } from './protocolUtils';
+
+// Probability an expert's 5th, 50th and 95th percentiles put below, between and above them
+const INTER_QUANTILE_MASS = [0.05, 0.45, 0.45, 0.05];
+
+// Cooke's overshoot: the intrinsic range is widened by this share of its width on each side
+export const INTRINSIC_RANGE_OVERSHOOT = 0.1;
+
+export interface ExpertSeedScores {
+    answered: number; // Seed questions the scores are based on
+    calibration: number; // Chance of answers this far from the stated percentiles if the expert were well calibrated
+    information: number; // Mean relative information against a uniform over each question's intrinsic range
+    weight: number; // Calibration × information, or zero below the calibration cutoff; normalised across experts
+}
+
+/**
+ * Explain why seed percentiles cannot be used, or return null when they can
+ */
+export function validateSeedAnswer(answer: QuantileAnswer): string | null {
+    if (QUANTILE_FIELDS.some(field => !Number.isFinite(answer[field]))) {
+        return 'Enter all three percentiles';
+    }
+    if (!(answer.p05 < answer.p50 && answer.p50 < answer.p95)) {
+        return 'Percentiles must rise from the 5th to the 50th to the 95th';
+    }
+    return null;
+}
+
+// Error function (Abramowitz and Stegun 7.1.26, accurate to about 1e-7)
+const erf = (x: number): number => {
+    const sign = x < 0 ? -1 : 1;
+    const t = 1 / (1 + 0.3275911 * Math.abs(x));
+    const polynomial = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    return sign * (1 - polynomial * Math.exp(-x * x));
+};
+
+/**
+ * Cumulative probability of a chi-square distribution with three degrees of freedom
+ */
+export function chiSquare3Cdf(x: number): number {
+    if (x <= 0) return 0;
+    return Math.max(0, Math.min(1, erf(Math.sqrt(x / 2)) - Math.sqrt(2 * x / Math.PI) * Math.exp(-x / 2)));
+}
+
+const binOf = (answer: QuantileAnswer, realisation: number): number =>
+    realisation < answer.p05 ? 0 : realisation < answer.p50 ? 1 : realisation < answer.p95 ? 2 : 3;
+
+/**
+ * Cooke's calibration score: how well the share of realisations in each inter-quantile bin matches
+ * the 5/45/45/5% the percentiles claim, as the p-value of 2N times their relative information
+ */
+export function calibrationScore(answers: QuantileAnswer[], realisations: number[]): number {
+    const count = answers.length;
+    if (count === 0) return 0;
+    const hits = INTER_QUANTILE_MASS.map(() => 0);
+    answers.forEach((answer, i) => hits[binOf(answer, realisations[i])]++);
+    const relativeInformation = hits.reduce((sum, hit, bin) => {
+        const share = hit / count;
+        return share > 0 ? sum + share * Math.log(share / INTER_QUANTILE_MASS[bin]) : sum;
+    }, 0);
+    return 1 - chiSquare3Cdf(2 * count * relativeInformation);
+}
+
+/**
+ * A question's intrinsic range: every expert's 5th to 95th percentiles and the realisation, widened by the overshoot
+ */
+export function getIntrinsicRange(answers: QuantileAnswer[], realisation: number): { lower: number; upper: number } {
+    const low = Math.min(realisation, ...answers.map(answer => answer.p05));
+    const high = Math.max(realisation, ...answers.map(answer => answer.p95));
+    const overshoot = INTRINSIC_RANGE_OVERSHOOT * (high - low || Math.abs(high) || 1);
+    return { lower: low - overshoot, upper: high + overshoot };
+}
+
+/**
+ * Relative information of one answer against the uniform distribution on the intrinsic range
+ */
+export function informationScore(answer: QuantileAnswer, range: { lower: number; upper: number }): number {
+    const edges = [range.lower, answer.p05, answer.p50, answer.p95, range.upper];
+    const width = range.upper - range.lower;
+    return INTER_QUANTILE_MASS.reduce((sum, mass, bin) => sum + mass * Math.log(mass / ((edges[bin + 1] - edges[bin]) / width)), 0);
+}
+
+/**
+ * Score every expert on the seed questions they answered and turn the scores into performance weights.
+ * Intrinsic ranges span all the experts scored together, so information scores depend on the panel.
+ */
+export function scoreExperts(
+    experts: SeedAnswers[],
+    questions: SeedQuestion[],
+    calibrationCutoff = 0
+): (ExpertSeedScores | null)[] {
+    // Only usable answers count, so one malformed answer cannot spoil every expert's intrinsic range
+    const isUsable = (answer: QuantileAnswer | undefined): answer is QuantileAnswer => !!answer && validateSeedAnswer(answer) === null;
+    const ranges = new Map(questions.map(question => [
+        question.id,
+        getIntrinsicRange(experts.map(answers => answers[question.id]).filter(isUsable), question.realisation),
+    ]));
+
+    const raw = experts.map(answers => {
+        const answered = questions.filter(question => isUsable(answers[question.id]));
+        if (answered.length === 0) {
+            return null;
+        }
+        const calibration = calibrationScore(answered.map(q => answers[q.id]), answered.map(q => q.realisation));
+        const information = answered.reduce((sum, q) => sum + informationScore(answers[q.id], ranges.get(q.id)!), 0) / answered.length;
+        return { answered: answered.length, calibration, information, weight: calibration >= calibrationCutoff ? calibration * information : 0 };
+    });
+
+    const totalWeight = raw.reduce((sum, scores) => sum + (scores?.weight ?? 0), 0);
+    return raw.map(scores => scores && { ...scores, weight: totalWeight > 0 ? scores.weight / totalWeight : 0 });
+}
+
+/**
+ * One row per expert with their seed scores and performance weight
+ */
+export function generateSeedScoresCSV(names: string[], scores: (ExpertSeedScores | null)[], calibrationCutoff: number): string {
+    const headers = ['expert', 'seeds_answered', 'calibration', 'information', 'calibration_x_information', 'calibration_cutoff', 'weight'];
+    const rows = names.map((name, i) => {
+        const expertScores = scores[i];
+        if (!expertScores) {
+            return [name, 0, '', '', '', formatCSVNumber(calibrationCutoff), 0];
+        }
+        return [
+            name,
+            expertScores.answered,
+            ...[expertScores.calibration, expertScores.information, expertScores.calibration * expertScores.information,
+                calibrationCutoff, expertScores.weight].map(formatCSVNumber),
+        ];
+    });
+    return serializeCSV([headers, ...rows]);
+}
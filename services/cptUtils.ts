@@ -0,0 +1,294 @@
+import { ArmId, FittedDistribution, Scenario, UserElicitationData } from '../types';
+import { formatCSVNumber, serializeCSV } from './csvUtils';
+import { DesignFactor } from './designUtils';
+import { fitScenarioDistribution, fittedCdf, OUTCOME_BOUNDS } from './fittingUtils';
+import { ACTIVE_PROJECT, ARMS } from './projectUtils';
+import { PredictionGridRow } from './surrogateUtils';
+
+export type CPTFormat = 'csv' | 'xdsl' | 'dne';
+
+export interface CPTRow {
+    levels: string[]; // One state per parent, in the order of the parents
+    scenarioId: string;
+    elicited: boolean; // False when the expert never worked on this combination and the surrogate model filled it
+    outsideTraining: string[];
+    probabilities: Record<ArmId, number[]>; // One per yield-loss bin, rounded and summing to exactly 1
+}
+
+// A yield-loss node per arm, conditioned on every factor column
+export interface ConditionalProbabilityTable {
+    parents: DesignFactor[];
+    edges: number[]; // Bin edges from OUTCOME_BOUNDS.min to OUTCOME_BOUNDS.max
+    rows: CPTRow[]; // Every combination of parent states, the last parent changing fastest
+}
+
+export const DEFAULT_CPT_BIN_EDGES = [0, 5, 10, 20, 40, 100];
+
+// Netica names are limited to 30 characters
+const MAX_IDENTIFIER_LENGTH = 30;
+
+// Probabilities are written to six decimal places
+const PROBABILITY_DECIMALS = 6;
+
+/**
+ * Read comma- or space-separated bin edges; anything that is not a number becomes NaN
+ */
+export function parseBinEdges(text: string): number[] {
+    return text.split(/[\s,;]+/).filter(part => part !== '').map(Number);
+}
+
+/**
+ * Explain why bin edges cannot be used, or return null when they can
+ */
+export function validateBinEdges(edges: number[]): string | null {
+    if (edges.some(edge => !Number.isFinite(edge))) {
+        return 'Bin edges must be numbers';
+    }
+    if (edges.length < 3) {
+        return 'Give at least three edges, which make two bins';
+    }
+    if (edges.some((edge, i) => i > 0 && edge <= edges[i - 1])) {
+        return 'Bin edges must increase';
+    }
+    if (edges[0] !== OUTCOME_BOUNDS.min || edges[edges.length - 1] !== OUTCOME_BOUNDS.max) {
+        return `Bins must run from ${OUTCOME_BOUNDS.min}% to ${OUTCOME_BOUNDS.max}% so every loss falls in one`;
+    }
+    return null;
+}
+
+const formatEdge = (edge: number): string => String(edge).replace('.', 'p').replace('-', 'm');
+
+/**
+ * State names of the yield-loss bins, e.g. loss_0_5 for 0–5%
+ */
+export function getBinStateNames(edges: number[]): string[] {
+    return edges.slice(1).map((upper, i) => `loss_${formatEdge(edges[i])}_${formatEdge(upper)}`);
+}
+
+/**
+ * Probability of each bin, rounded so the bins still sum to exactly 1
+ */
+export function binProbabilities(fitted: FittedDistribution, edges: number[]): number[] {
+    // The outer edges are the outcome bounds, so every loss, including a point mass on a bound, falls in a bin
+    const cumulative = edges.map((edge, i) => (i === 0 ? 0 : i === edges.length - 1 ? 1 : fittedCdf(fitted, edge)));
+    const raw = cumulative.slice(1).map((value, i) => Math.max(0, value - cumulative[i]));
+    const total = raw.reduce((sum, value) => sum + value, 0);
+    const scale = 10 ** PROBABILITY_DECIMALS;
+    const rounded = raw.map(value => Math.round((total > 0 ? value / total : 1 / raw.length) * scale) / scale);
+    // Rounding error goes to the most likely bin, where it matters least
+    const largest = rounded.indexOf(Math.max(...rounded));
+    rounded[largest] = Math.round((1 - rounded.reduce((sum, value, i) => (i === largest ? sum : sum + value), 0)) * scale) / scale;
+    return rounded;
+}
+
+const levelKey = (levels: string[]): string => JSON.stringify(levels);
+
+/**
+ * Discretise every arm over every combination of the factor levels. Combinations the expert worked on use
+ * their own fitted distributions; the rest use the surrogate model's predictions and are flagged.
+ */
+export function buildConditionalProbabilityTable(
+    grid: PredictionGridRow[],
+    factors: DesignFactor[],
+    userData: UserElicitationData,
+    edges: number[]
+): ConditionalProbabilityTable {
+    const error = validateBinEdges(edges);
+    if (error) {
+        throw new Error(error);
+    }
+
+    const levelsOf = (scenario: Scenario) => factors.map(factor => String(scenario[factor.column] ?? '').trim());
+    const gridByLevels = new Map(grid.map(row => [levelKey(levelsOf(row.scenario)), row]));
+
+    const combinations = factors.reduce<string[][]>(
+        (partial, factor) => partial.flatMap(prefix => factor.levels.map(level => [...prefix, level])),
+        [[]]
+    );
+
+    const rows = combinations.map(levels => {
+        const gridRow = gridByLevels.get(levelKey(levels));
+        if (!gridRow) {
+            throw new Error(`The prediction grid has no row for ${levels.join(', ')}`);
+        }
+        const fitted = gridRow.elicited ? fitScenarioDistribution(userData[gridRow.scenario.id]) : gridRow.predicted;
+        return {
+            levels,
+            scenarioId: gridRow.scenario.id,
+            elicited: gridRow.elicited,
+            outsideTraining: gridRow.outsideTraining,
+            probabilities: Object.fromEntries(ARMS.map(arm => [arm.id, binProbabilities(fitted[arm.id], edges)])),
+        };
+    });
+
+    return { parents: factors, edges, rows };
+}
+
+/**
+ * One row per arm and combination of factor levels, with a probability column per yield-loss bin
+ */
+export function generateCPTCSV(table: ConditionalProbabilityTable): string {
+    const factorColumns = table.parents.map(parent => parent.column);
+    const headers = ['arm', ...factorColumns, 'scenario_id', 'elicited', 'outside_training', ...getBinStateNames(table.edges)];
+    const rows = ARMS.flatMap(arm => table.rows.map(row => [
+        arm.id,
+        ...row.levels,
+        row.scenarioId,
+        row.elicited ? 'yes' : 'no',
+        row.outsideTraining.join('; '),
+        ...row.probabilities[arm.id].map(formatCSVNumber),
+    ]));
+    return serializeCSV([headers, ...rows]);
+}
+
+/**
+ * Names usable as BN node and state ids: letters, digits and underscores, starting with a letter, unique and short
+ */
+export function toIdentifiers(names: string[], prefix: string): string[] {
+    const used = new Set<string>();
+    return names.map(name => {
+        let base = name.trim().replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+        if (!/^[A-Za-z]/.test(base)) {
+            base = `${prefix}${base}`;
+        }
+        base = base.slice(0, MAX_IDENTIFIER_LENGTH);
+        let id = base;
+        for (let n = 2; used.has(id); n++) {
+            id = `${base.slice(0, MAX_IDENTIFIER_LENGTH - String(n).length - 1)}_${n}`;
+        }
+        used.add(id);
+        return id;
+    });
+}
+
+interface NetworkNames {
+    network: string;
+    parents: string[];
+    parentStates: string[][];
+    children: string[]; // One yield-loss node per arm
+    binStates: string[];
+}
+
+const getNetworkNames = (table: ConditionalProbabilityTable): NetworkNames => {
+    // Parents and children share one namespace
+    const nodes = toIdentifiers([...table.parents.map(parent => parent.column), ...ARMS.map(arm => `yield_loss_${arm.id}`)], 'f_');
+    return {
+        network: toIdentifiers([ACTIVE_PROJECT.id], 'bn_')[0],
+        parents: nodes.slice(0, table.parents.length),
+        parentStates: table.parents.map(parent => toIdentifiers(parent.levels, 'level_')),
+        children: nodes.slice(table.parents.length),
+        binStates: getBinStateNames(table.edges),
+    };
+};
+
+// Parents carry no elicited information, so they are given uniform priors for the modeller to replace
+const uniformPrior = (count: number): number[] => {
+    const scale = 10 ** PROBABILITY_DECIMALS;
+    const share = Math.floor(scale / count) / scale;
+    return Array.from({ length: count }, (_, i) => (i === 0 ? Math.round((1 - share * (count - 1)) * scale) / scale : share));
+};
+
+const describeRow = (row: CPTRow): string =>
+    `${row.levels.join(', ')}${row.elicited ? '' : ' (not elicited, predicted by the surrogate model)'}`;
+
+const escapeXML = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/--/g, '- -');
+
+/**
+ * GeNIe/SMILE network file with a node per factor column and a yield-loss node per arm
+ */
+export function generateCPTXDSL(table: ConditionalProbabilityTable): string {
+    const names = getNetworkNames(table);
+    const notElicited = table.rows.filter(row => !row.elicited);
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<!-- ${escapeXML(ACTIVE_PROJECT.title)}: yield loss (%) in bins ${table.edges.join(', ')}. Parent nodes have uniform priors. -->`,
+        `<smile version="1.0" id="${names.network}" numsamples="10000" discsamples="10000">`,
+        '\t<nodes>',
+    ];
+    table.parents.forEach((parent, p) => {
+        lines.push(`\t\t<!-- ${escapeXML(parent.column)} -->`);
+        lines.push(`\t\t<cpt id="${names.parents[p]}">`);
+        names.parentStates[p].forEach(state => lines.push(`\t\t\t<state id="${state}" />`));
+        lines.push(`\t\t\t<probabilities>${uniformPrior(parent.levels.length).join(' ')}</probabilities>`);
+        lines.push('\t\t</cpt>');
+    });
+    ARMS.forEach((arm, a) => {
+        lines.push(`\t\t<!-- ${escapeXML(arm.label)} yield loss (%) -->`);
+        lines.push(`\t\t<cpt id="${names.children[a]}">`);
+        names.binStates.forEach(state => lines.push(`\t\t\t<state id="${state}" />`));
+        if (names.parents.length > 0) {
+            lines.push(`\t\t\t<parents>${names.parents.join(' ')}</parents>`);
+        }
+        if (notElicited.length > 0) {
+            lines.push(`\t\t\t<!-- Not elicited, predicted by the surrogate model: ${notElicited.map(row => escapeXML(row.levels.join(', '))).join('; ')} -->`);
+        }
+        lines.push(`\t\t\t<probabilities>${table.rows.flatMap(row => row.probabilities[arm.id]).join(' ')}</probabilities>`);
+        lines.push('\t\t</cpt>');
+    });
+    lines.push('\t</nodes>', '</smile>', '');
+    return lines.join('\n');
+}
+
+const quoteNetica = (text: string): string => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Netica network text (.dne). Yield-loss nodes are discretised continuous nodes whose levels are the bin edges.
+ */
+export function generateCPTDNE(table: ConditionalProbabilityTable): string {
+    const names = getNetworkNames(table);
+    const radices = table.parents.map(parent => parent.levels.length);
+    const lines = [
+        '// ~->[DNET-1]->~',
+        '',
+        `bnet ${names.network} {`,
+        `\ttitle = ${quoteNetica(ACTIVE_PROJECT.title)};`,
+        `\tcomment = ${quoteNetica(`Yield loss (%) in bins ${table.edges.join(', ')}. Parent nodes have uniform priors.`)};`,
+        '',
+    ];
+
+    table.parents.forEach((parent, p) => {
+        lines.push(
+            `node ${names.parents[p]} {`,
+            '\tkind = NATURE;',
+            '\tdiscrete = TRUE;',
+            `\tstates = (${names.parentStates[p].join(', ')});`,
+            '\tparents = ();',
+            `\tprobs = (${uniformPrior(parent.levels.length).join(', ')});`,
+            `\ttitle = ${quoteNetica(parent.column)};`,
+            '\t};',
+            ''
+        );
+    });
+
+    ARMS.forEach((arm, a) => {
+        lines.push(
+            `node ${names.children[a]} {`,
+            '\tkind = NATURE;',
+            '\tdiscrete = FALSE;',
+            `\tstates = (${names.binStates.join(', ')});`,
+            `\tlevels = (${table.edges.join(', ')});`,
+            `\tparents = (${names.parents.join(', ')});`,
+            '\tprobs = ',
+            `\t\t// ${names.binStates.join(' ')}${names.parents.length > 0 ? ` // ${names.parents.join(' ')}` : ''}`
+        );
+        // Nested by parent, first parent outermost: a row opens a bracket for each parent whose later
+        // parents are all at their first state, and closes one for each whose later parents are all at their last
+        table.rows.forEach((row, r) => {
+            let remainder = r;
+            const digits = radices.slice().reverse().map(radix => {
+                const digit = remainder % radix;
+                remainder = Math.floor(remainder / radix);
+                return digit;
+            }).reverse();
+            const opens = digits.filter((_, j) => digits.slice(j).every(digit => digit === 0)).length;
+            const closes = digits.filter((_, j) => digits.slice(j).every((digit, k) => digit === radices[j + k] - 1)).length;
+            const last = r === table.rows.length - 1;
+            lines.push(`\t\t${'('.repeat(opens)}(${row.probabilities[arm.id].join(', ')})${')'.repeat(closes)}${last ? ';' : ','} // ${describeRow(row)}`);
+        });
+        lines.push(`\ttitle = ${quoteNetica(`${arm.label} yield loss (%)`)};`, '\t};', '');
+    });
+
+    lines.push('};', '');
+    return lines.join('\n');
+}
@@ -1,8 +1,135 @@
-import { Scenario, UserElicitationData } from '../types';
+import { ArmId, Distribution, FittedDistribution, Scenario, UserElicitationData } from '../types';
+import { BenefitCoupling, DEFAULT_BENEFIT_COUPLING, DEFAULT_BENEFIT_THRESHOLD, sampleBenefit, summariseBenefit } from './benefitUtils';
+import { DEFAULT_SLIDER_RANGE, getUserDistribution, hasScenarioUserEdits } from './distributionUtils';
+import { fitScenarioDistribution, OUTCOME_BOUNDS } from './fittingUtils';
+import { ARMS, COMPARISON_ARMS, REFERENCE_ARM } from './projectUtils';
+import { formatProtocolAnswer, parseProtocolAnswer } from './protocolUtils';
 
 const COMMENT_HEADER = 'comment';
-const DIST_HEADERS = ['baseline_min', 'baseline_max', 'baseline_mode', 'baseline_confidence', 'treatment_min', 'treatment_max', 'treatment_mode', 'treatment_confidence'];
-const RESERVED_HEADERS = ['scenario_id', 'scenario_group', COMMENT_HEADER, ...DIST_HEADERS];
+// Each arm's columns are named with its CSV prefix, e.g. baseline_min
+const DIST_FIELDS = ['min', 'max', 'mode', 'confidence'] as const;
+const DIST_HEADERS = ARMS.flatMap(arm => DIST_FIELDS.map(field => `${arm.csvPrefix}_${field}`));
+// The percentile or chips answer an arm's values were fitted from, in its one-line text form
+const ANSWER_HEADERS = ARMS.map(arm => `${arm.csvPrefix}_answer`);
+// Derived from the elicited values on export; ignored when a session is loaded back in
+const FITTED_SUFFIXES = ['alpha', 'beta', 'lower', 'upper', 'mean', 'variance', 'p05', 'p50', 'p95'];
+const FITTED_HEADERS = ARMS.flatMap(arm => FITTED_SUFFIXES.map(suffix => `${arm.csvPrefix}_${suffix}`));
+const BENEFIT_SUFFIXES = ['mean', 'sd', 'p05', 'p50', 'p95', 'threshold', 'prob_exceeds'];
+// With a single compared arm the columns keep their plain benefit_ names
+const benefitPrefix = (csvPrefix: string) => COMPARISON_ARMS.length > 1 ? `benefit_${csvPrefix}` : 'benefit';
+const BENEFIT_HEADERS = COMPARISON_ARMS.flatMap(arm => BENEFIT_SUFFIXES.map(suffix => `${benefitPrefix(arm.csvPrefix)}_${suffix}`));
+const RESERVED_HEADERS = ['scenario_id', 'scenario_group', COMMENT_HEADER, ...DIST_HEADERS, ...ANSWER_HEADERS, ...FITTED_HEADERS, ...BENEFIT_HEADERS];
+
+// Derived numbers are written to six significant figures
+export const formatCSVNumber = (value: number): string => String(Number(value.toPrecision(6)));
+
+const getFittedValues = (fitted: FittedDistribution): string[] => [
+    fitted.alpha, fitted.beta, fitted.lower, fitted.upper, fitted.mean, fitted.variance,
+    fitted.quantiles.p05, fitted.quantiles.p50, fitted.quantiles.p95,
+].map(formatCSVNumber);
+
+interface CSVField {
+    value: string;
+    quoted: boolean;
+}
+
+// Split CSV text into records of fields, noting which fields were quoted
+function parseCSVFields(csvText: string): CSVField[][] {
+    const text = csvText.charCodeAt(0) === 0xfeff ? csvText.slice(1) : csvText;
+    const rows: CSVField[][] = [];
+    let row: CSVField[] = [];
+    let field = '';
+    let quoted = false;
+    let inQuotes = false;
+    let i = 0;
+
+    const endField = () => {
+        row.push({ value: field, quoted });
+        field = '';
+        quoted = false;
+    };
+    const endRow = () => {
+        endField();
+        rows.push(row);
+        row = [];
+    };
+
+    while (i < text.length) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"';
+                    i += 2;
+                    continue;
+                }
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+            i++;
+            continue;
+        }
+
+        // Quotes only open a quoted field at its start; elsewhere they are kept as literal text
+        if (char === '"' && field === '') {
+            inQuotes = true;
+            quoted = true;
+        } else if (char === ',') {
+            endField();
+        } else if (char === '\r' || char === '\n') {
+            endRow();
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+        } else {
+            field += char;
+        }
+        i++;
+    }
+
+    if (inQuotes) {
+        throw new Error('CSV file ends inside a quoted field');
+    }
+    // A final record without a trailing line break
+    if (field !== '' || row.length > 0) {
+        endRow();
+    }
+
+    return rows;
+}
+
+/**
+ * Split CSV text into rows of raw field values following RFC 4180: quoted fields may contain
+ * commas, doubled quotes and line breaks; records end in CRLF or LF; a leading UTF-8 BOM is dropped
+ */
+export function parseCSVRows(csvText: string): string[][] {
+    return parseCSVFields(csvText).map(row => row.map(field => field.value));
+}
+
+/**
+ * Quote a field when it holds a comma, quote, line break, backslash or edge whitespace. Backslashes
+ * are quoted so that an unquoted literal \n is only ever a line break from an older export.
+ */
+export function formatCSVField(value: unknown): string {
+    const text = value === null || value === undefined ? '' : String(value);
+    if (/[",\r\n\\]/.test(text) || text !== text.trim()) {
+        return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+}
+
+export function formatCSVRow(values: unknown[]): string {
+    return values.map(formatCSVField).join(',');
+}
+
+/**
+ * Join formatted rows into CSV text with CRLF record separators
+ */
+export function serializeCSV(rows: unknown[][]): string {
+    return rows.map(formatCSVRow).join('\r\n');
+}
 
 // Function to find yield column using regex
 function findYieldColumn(headers: string[]): string | null {
@@ -10,11 +137,10 @@ function findYieldColumn(headers: string[]): string | null {
     return headers.find(header => yieldRegex.test(header)) || null;
 }
 
-export function generateCSV(scenarios: Scenario[], userData: UserElicitationData): string {
-    if (scenarios.length === 0) {
-        throw new Error('Cannot generate CSV: no scenarios provided');
-    }
-    
+/**
+ * Collect the descriptive columns used across all scenarios (everything but id, group and comment)
+ */
+export function getScenarioDataColumns(scenarios: Scenario[]): string[] {
     // Get all possible headers from all scenarios to handle dynamic columns
     const allScenarioHeaders = new Set<string>();
     scenarios.forEach(scenario => {
@@ -24,33 +150,66 @@ export function generateCSV(scenarios: Scenario[], userData: UserElicitationData
             }
         });
     });
+    return Array.from(allScenarioHeaders).sort();
+}
+
+export interface CSVExportOptions {
+    benefitThreshold?: number;
+    benefitCoupling?: BenefitCoupling;
+}
+
+export function generateCSV(scenarios: Scenario[], userData: UserElicitationData, options: CSVExportOptions = {}): string {
+    const benefitThreshold = options.benefitThreshold ?? DEFAULT_BENEFIT_THRESHOLD;
+    const benefitCoupling = options.benefitCoupling ?? DEFAULT_BENEFIT_COUPLING;
+
+    if (scenarios.length === 0) {
+        throw new Error('Cannot generate CSV: no scenarios provided');
+    }
     
-    const scenarioHeaders = Array.from(allScenarioHeaders).sort();
-    const headers = ['scenario_id', 'scenario_group', COMMENT_HEADER, ...scenarioHeaders, ...DIST_HEADERS];
+    const scenarioHeaders = getScenarioDataColumns(scenarios);
+    const headers = ['scenario_id', 'scenario_group', COMMENT_HEADER, ...scenarioHeaders, ...DIST_HEADERS, ...ANSWER_HEADERS, ...FITTED_HEADERS, ...BENEFIT_HEADERS];
 
     const rows = scenarios.map(scenario => {
         const scenarioData = scenarioHeaders.map(h => scenario[h] ?? ''); // Handle missing properties
         const userDist = userData[scenario.id];
 
-        const distData = userDist ? [
-            userDist.baseline.min ?? '', userDist.baseline.max ?? '', userDist.baseline.mode ?? '', userDist.baseline.confidence ?? '',
-            userDist.treatment.min ?? '', userDist.treatment.max ?? '', userDist.treatment.mode ?? '', userDist.treatment.confidence ?? '',
-        ] : Array(8).fill('');
+        const distData = userDist
+            ? ARMS.flatMap(arm => DIST_FIELDS.map(field => getUserDistribution(userDist, arm.id)[field] ?? ''))
+            : Array(DIST_HEADERS.length).fill('');
+        const answerData = ARMS.map(arm => {
+            const answer = userDist ? getUserDistribution(userDist, arm.id).answer : undefined;
+            return answer ? formatProtocolAnswer(answer) : '';
+        });
+
+        // Only scenarios the expert has worked on get fitted parameters
+        let fittedData: string[] = Array(FITTED_HEADERS.length).fill('');
+        let benefitData: string[] = Array(BENEFIT_HEADERS.length).fill('');
+        if (userDist && hasScenarioUserEdits(userDist)) {
+            const fitted = fitScenarioDistribution(userDist);
+            fittedData = ARMS.flatMap(arm => getFittedValues(fitted[arm.id]));
 
-        const sanitizedComment = (scenario.comment ?? '')
-            .replace(/,/g, '')
-            .replace(/\r?\n/g, '\\n');
+            benefitData = COMPARISON_ARMS.flatMap(arm => {
+                const benefit = summariseBenefit(sampleBenefit(scenario.id, userDist, arm.id, benefitCoupling), benefitThreshold);
+                return [
+                    benefit.mean, benefit.sd, benefit.quantiles.p05, benefit.quantiles.p50, benefit.quantiles.p95,
+                    benefit.threshold, benefit.probabilityExceeds,
+                ].map(formatCSVNumber);
+            });
+        }
 
         return [
             scenario.id,
             scenario.scenario_group ?? '',
-            sanitizedComment,
+            scenario.comment ?? '',
             ...scenarioData,
-            ...distData
-        ].join(',');
+            ...distData,
+            ...answerData,
+            ...fittedData,
+            ...benefitData
+        ];
     });
 
-    return [headers.join(','), ...rows].join('\n');
+    return serializeCSV([headers, ...rows]);
 }
 
 export interface ParsedCSVData {
@@ -59,13 +218,32 @@ export interface ParsedCSVData {
     yieldColumn: string | null;
 }
 
-export function parseCSV(csvText: string, existingScenarios: Scenario[]): ParsedCSVData {
-    const lines = csvText.trim().split('\n');
-    if (lines.length < 2) {
+// A CSV file's header and data rows, before any values are interpreted
+export interface CSVTable {
+    headers: string[];
+    rows: Record<string, string>[];
+}
+
+export type ImportIssueSeverity = 'error' | 'warning';
+
+export interface ImportIssue {
+    rowIndex: number; // Index into the table's rows; the file row is rowIndex + 2
+    columns: string[]; // The cells involved, offered for editing
+    severity: ImportIssueSeverity; // Rows with errors cannot be imported; warnings are imported as they are
+    message: string;
+}
+
+/**
+ * Read CSV text into a table, checking the columns every session file needs
+ */
+export function readCSVTable(csvText: string): CSVTable {
+    // Blank records (including trailing line breaks) carry no data
+    const records = parseCSVFields(csvText).filter(record => record.some(field => field.value.trim() !== ''));
+    if (records.length < 2) {
         throw new Error('CSV file must contain at least a header row and one data row');
     }
     
-    const headers = lines[0].split(',').map(h => h.trim());
+    const headers = records[0].map(h => h.value.trim());
     
     // Validate required columns
     if (!headers.includes('scenario_id')) {
@@ -80,7 +258,118 @@ export function parseCSV(csvText: string, existingScenarios: Scenario[]): Parsed
     if (missingDistHeaders.length > 0) {
         throw new Error(`CSV file must contain distribution columns: ${missingDistHeaders.join(', ')}`);
     }
-    
+
+    const rows = records.slice(1).map(fields => headers.reduce((obj, header, index) => {
+        const { value, quoted } = fields[index] ?? { value: '', quoted: false };
+        // Comments are kept verbatim, except that older exports wrote their line breaks as an unquoted
+        // literal \n; every other cell is trimmed
+        if (header === COMMENT_HEADER) {
+            obj[header] = quoted ? value : value.replace(/\\n/g, '\n');
+        } else {
+            obj[header] = value.trim();
+        }
+        return obj;
+    }, {} as Record<string, string>));
+
+    return { headers, rows };
+}
+
+/**
+ * Check every row of a table for problems that would stop it importing (errors) or that the expert
+ * should know about (warnings)
+ */
+export function validateCSVTable(table: CSVTable): ImportIssue[] {
+    const issues: ImportIssue[] = [];
+    const comparableHeaders = table.headers.filter(header => header !== 'scenario_group');
+    const firstRowById = new Map<string, number>();
+
+    table.rows.forEach((row, rowIndex) => {
+        const addIssue = (severity: ImportIssueSeverity, columns: string[], message: string) => {
+            issues.push({ rowIndex, columns, severity, message });
+        };
+
+        const scenarioId = row['scenario_id'];
+        if (!scenarioId) {
+            addIssue('error', ['scenario_id'], 'Missing scenario_id');
+        } else if (firstRowById.has(scenarioId)) {
+            const firstIndex = firstRowById.get(scenarioId)!;
+            const conflicts = comparableHeaders.filter(header => (table.rows[firstIndex][header] ?? '') !== (row[header] ?? ''));
+            if (conflicts.length > 0) {
+                addIssue('error', conflicts, `scenario_id "${scenarioId}" is also on row ${firstIndex + 2}, which differs in: ${conflicts.join(', ')}`);
+            }
+        } else {
+            firstRowById.set(scenarioId, rowIndex);
+        }
+        if (!row['scenario_group']) {
+            addIssue('warning', ['scenario_group'], 'No scenario_group; the row will be imported into "Unknown"');
+        }
+
+        // Each arm's values with defaults filled in, or null when a cell is unusable
+        const armValues: Record<ArmId, Distribution | null> = {};
+        ARMS.forEach(arm => {
+            const dist = { ...arm.defaults };
+            let usable = true;
+            DIST_FIELDS.forEach(field => {
+                const column = `${arm.csvPrefix}_${field}`;
+                const text = row[column] ?? '';
+                if (text === '') return;
+                const value = Number(text);
+                if (!Number.isFinite(value)) {
+                    addIssue('error', [column], `${column} is not a number ("${text}")`);
+                    usable = false;
+                    return;
+                }
+                dist[field] = value;
+                if (field === 'confidence') {
+                    if (value < 1 || value > 100) {
+                        addIssue('error', [column], `${column} must be between 1 and 100`);
+                    }
+                } else if (value < OUTCOME_BOUNDS.min || value > OUTCOME_BOUNDS.max) {
+                    addIssue('error', [column], `${column} must be between ${OUTCOME_BOUNDS.min} and ${OUTCOME_BOUNDS.max}`);
+                } else if (value < DEFAULT_SLIDER_RANGE.min || value > DEFAULT_SLIDER_RANGE.max) {
+                    addIssue('warning', [column], `${column} (${value}) is outside the slider range of ${DEFAULT_SLIDER_RANGE.min}–${DEFAULT_SLIDER_RANGE.max}%`);
+                }
+            });
+
+            const [minColumn, modeColumn, maxColumn] = ['min', 'mode', 'max'].map(field => `${arm.csvPrefix}_${field}`);
+            if (usable && dist.min > dist.max) {
+                addIssue('error', [minColumn, maxColumn], `${arm.label}: min (${dist.min}) is above max (${dist.max})`);
+            } else if (usable && (dist.mode < dist.min || dist.mode > dist.max)) {
+                addIssue('error', [minColumn, modeColumn, maxColumn], `${arm.label}: mode (${dist.mode}) is outside min–max (${dist.min}–${dist.max})`);
+            }
+            armValues[arm.id] = usable ? dist : null;
+
+            const answerColumn = `${arm.csvPrefix}_answer`;
+            const answerText = (row[answerColumn] ?? '').trim();
+            if (answerText && !parseProtocolAnswer(answerText)) {
+                addIssue('warning', [answerColumn], `${answerColumn} is not a percentile or chips answer; the values will be imported without it`);
+            }
+        });
+
+        const reference = armValues[REFERENCE_ARM.id];
+        COMPARISON_ARMS.forEach(arm => {
+            const values = armValues[arm.id];
+            if (!reference || !values) return;
+            const above = (['min', 'mode', 'max'] as const).filter(field => values[field] > reference[field]);
+            if (above.length > 0) {
+                addIssue(
+                    'warning',
+                    above.flatMap(field => [`${arm.csvPrefix}_${field}`, `${REFERENCE_ARM.csvPrefix}_${field}`]),
+                    `${arm.label} is above ${REFERENCE_ARM.label.toLowerCase()} in ${above.join(', ')}; the table will hold it at or below`
+                );
+            }
+        });
+    });
+
+    return issues;
+}
+
+/**
+ * Build scenarios and elicitation data from a table's rows
+ */
+export function parseCSVTable(table: CSVTable): ParsedCSVData {
+    const { headers } = table;
+
     // Find yield column
     const yieldColumn = findYieldColumn(headers);
     
@@ -92,21 +381,10 @@ export function parseCSV(csvText: string, existingScenarios: Scenario[]): Parsed
     const comparableHeaders = headers.filter(header => header !== 'scenario_group');
     const canonicalRows = new Map<string, Record<string, string>>();
 
-    for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) {
-            continue;
-        }
-
-        const values = line.split(',').map(v => v.trim());
-        const row = headers.reduce((obj, header, index) => {
-            obj[header] = values[index] ?? '';
-            return obj;
-        }, {} as { [key: string]: string });
-        
+    table.rows.forEach((row, i) => {
         const scenarioId = row['scenario_id'];
         if (!scenarioId) {
-            throw new Error(`Row ${i + 1} is missing a scenario_id value.`);
+            throw new Error(`Row ${i + 2} is missing a scenario_id value.`);
         }
 
         const comparableRow = comparableHeaders.reduce((acc, header) => {
@@ -142,7 +420,7 @@ export function parseCSV(csvText: string, existingScenarios: Scenario[]): Parsed
         const newScenario: Scenario = {
             id: scenarioId,
             scenario_group: row['scenario_group'] || 'Unknown',
-            comment: (row[COMMENT_HEADER] || '').replace(/\\n/g, '\n'),
+            comment: row[COMMENT_HEADER] || '',
             ...scenarioData
         };
 
@@ -152,21 +430,21 @@ export function parseCSV(csvText: string, existingScenarios: Scenario[]): Parsed
             return value === '' ? null : parseFloat(value);
         };
 
-        const userBaseline = {
-            min: parseValue(row['baseline_min']),
-            max: parseValue(row['baseline_max']),
-            mode: parseValue(row['baseline_mode']),
-            confidence: parseValue(row['baseline_confidence']),
-        };
-        const userTreatment = {
-            min: parseValue(row['treatment_min']),
-            max: parseValue(row['treatment_max']),
-            mode: parseValue(row['treatment_mode']),
-            confidence: parseValue(row['treatment_confidence']),
-        };
-        
-        userData[scenarioId] = { baseline: userBaseline, treatment: userTreatment };
-    }
+        userData[scenarioId] = Object.fromEntries(ARMS.map(arm => {
+            const answer = parseProtocolAnswer(row[`${arm.csvPrefix}_answer`] ?? '');
+            return [arm.id, {
+                min: parseValue(row[`${arm.csvPrefix}_min`]),
+                max: parseValue(row[`${arm.csvPrefix}_max`]),
+                mode: parseValue(row[`${arm.csvPrefix}_mode`]),
+                confidence: parseValue(row[`${arm.csvPrefix}_confidence`]),
+                ...(answer ? { answer } : {}),
+            }];
+        }));
+    });
 
     return { scenarios, userElicitationData: userData, yieldColumn };
 }
+
+export function parseCSV(csvText: string, existingScenarios: Scenario[]): ParsedCSVData {
+    return parseCSVTable(readCSVTable(csvText));
+}
@@ -0,0 +1,213 @@
+import { randomLcg } from 'd3';
+import { FactorOrdering, Scenario } from '../types';
+import { seedFromString } from './benefitUtils';
+import { getScenarioDataColumns } from './csvUtils';
+import { getLevelRank } from './monotonicityUtils';
+
+export type DesignType = 'one-at-a-time' | 'full-factorial' | 'fractional' | 'latin-hypercube';
+
+export interface DesignFactor {
+    column: string;
+    levels: string[];
+    reference: string; // The level every one-at-a-time sweep holds the factor at
+}
+
+export interface DesignOptions {
+    type: DesignType;
+    groupName?: string; // Group for the non-sweep designs; one-at-a-time groups are named after their factor
+    sampleSize?: number; // Rows drawn by the fractional and Latin-hypercube designs
+    seed?: number;
+}
+
+export const DESIGN_TYPE_LABELS: Record<DesignType, string> = {
+    'one-at-a-time': 'One-at-a-time sweeps',
+    'full-factorial': 'Full factorial',
+    'fractional': 'Fractional (random subset)',
+    'latin-hypercube': 'Latin hypercube',
+};
+
+// Guards against a factorial that would swamp the table
+export const MAX_DESIGN_ROWS = 2000;
+
+const RESERVED_COLUMNS = ['id', 'scenario_id', 'scenario_group', 'comment'];
+
+// Scenario values are stored as numbers where they parse as numbers, as parseCSV does
+const toCellValue = (level: string): string | number => isNaN(Number(level)) ? level : Number(level);
+
+const combinationKey = (values: Record<string, unknown>, columns: string[]): string =>
+    JSON.stringify(columns.map(column => String(values[column] ?? '').trim()));
+
+/**
+ * Check a factor list, throwing on the first problem found
+ */
+export function validateDesignFactors(factors: DesignFactor[]): void {
+    if (factors.length === 0) {
+        throw new Error('Add at least one factor');
+    }
+    const seen = new Set<string>();
+    factors.forEach(factor => {
+        const column = factor.column.trim();
+        if (!column) {
+            throw new Error('Every factor needs a column name');
+        }
+        if (RESERVED_COLUMNS.includes(column)) {
+            throw new Error(`"${column}" is reserved and cannot be a factor`);
+        }
+        if (seen.has(column)) {
+            throw new Error(`Factor "${column}" is listed twice`);
+        }
+        seen.add(column);
+        if (factor.levels.length === 0) {
+            throw new Error(`Factor "${column}" has no levels`);
+        }
+        if (new Set(factor.levels).size !== factor.levels.length) {
+            throw new Error(`Factor "${column}" repeats a level`);
+        }
+        if (!factor.levels.includes(factor.reference)) {
+            throw new Error(`The reference level of "${column}" must be one of its levels`);
+        }
+    });
+}
+
+/**
+ * Number of rows a design will produce, before identical rows are shared
+ */
+export function countDesignRows(factors: DesignFactor[], options: DesignOptions): number {
+    switch (options.type) {
+        case 'one-at-a-time':
+            return factors.reduce((sum, factor) => sum + factor.levels.length, 0);
+        case 'full-factorial':
+            return factors.reduce((product, factor) => product * factor.levels.length, 1);
+        default:
+            return options.sampleSize ?? 0;
+    }
+}
+
+// Level indices for every row of the design, one index per factor
+const designRows = (factors: DesignFactor[], options: DesignOptions): { group: string; levels: number[] }[] => {
+    const referenceIndices = factors.map(factor => factor.levels.indexOf(factor.reference));
+    const groupName = options.groupName?.trim() || DESIGN_TYPE_LABELS[options.type].toLowerCase();
+
+    const allCombinations = (): number[][] => factors.reduce<number[][]>(
+        (combinations, factor) => combinations.flatMap(combination => factor.levels.map((_, index) => [...combination, index])),
+        [[]]
+    );
+
+    switch (options.type) {
+        case 'one-at-a-time':
+            // Each sweep varies one factor through its levels with the rest held at their references
+            return factors.flatMap((factor, factorIndex) => factor.levels.map((_, levelIndex) => ({
+                group: factor.column.trim(),
+                levels: referenceIndices.map((reference, i) => i === factorIndex ? levelIndex : reference),
+            })));
+        case 'full-factorial':
+            return allCombinations().map(levels => ({ group: groupName, levels }));
+        case 'fractional': {
+            // A seeded random subset of the full factorial, always including the reference row
+            const random = randomLcg(seedFromString(String(options.seed ?? 0)));
+            const referenceKey = referenceIndices.join(',');
+            const others = allCombinations().filter(levels => levels.join(',') !== referenceKey);
+            for (let i = others.length - 1; i > 0; i--) {
+                const j = Math.floor(random() * (i + 1));
+                [others[i], others[j]] = [others[j], others[i]];
+            }
+            const size = Math.max(1, Math.min(options.sampleSize ?? 1, others.length + 1));
+            return [referenceIndices, ...others.slice(0, size - 1)].map(levels => ({ group: groupName, levels }));
+        }
+        case 'latin-hypercube': {
+            // Each factor's levels are spread as evenly as possible over the rows, then shuffled independently
+            const random = randomLcg(seedFromString(String(options.seed ?? 0)));
+            const size = Math.max(1, options.sampleSize ?? 1);
+            const columns = factors.map(factor => {
+                const column = Array.from({ length: size }, (_, i) => Math.floor((i + random()) * factor.levels.length / size));
+                for (let i = column.length - 1; i > 0; i--) {
+                    const j = Math.floor(random() * (i + 1));
+                    [column[i], column[j]] = [column[j], column[i]];
+                }
+                return column;
+            });
+            return Array.from({ length: size }, (_, row) => ({ group: groupName, levels: columns.map(column => column[row]) }));
+        }
+    }
+};
+
+/**
+ * Generate scenarios from factor definitions. Rows with the same factor levels share one scenario_id,
+ * reusing the id (and comment) of an existing scenario with exactly those values; new combinations are numbered
+ * after the highest numeric id in use. A combination appears at most once per group.
+ */
+export function generateDesign(factors: DesignFactor[], options: DesignOptions, existingScenarios: Scenario[] = []): Scenario[] {
+    validateDesignFactors(factors);
+    const rowCount = countDesignRows(factors, options);
+    if (rowCount < 1) {
+        throw new Error('Choose how many scenarios to draw');
+    }
+    if (rowCount > MAX_DESIGN_ROWS) {
+        throw new Error(`This design has ${rowCount} rows; the limit is ${MAX_DESIGN_ROWS}`);
+    }
+
+    const columns = factors.map(factor => factor.column.trim());
+    const idsByKey = new Map<string, string>();
+    const commentsById = new Map(existingScenarios.map(s => [s.id, s.comment ?? '']));
+    // Only scenarios described by exactly these columns can share an id without breaking parseCSV's duplicate rule
+    existingScenarios.forEach(scenario => {
+        const dataColumns = getScenarioDataColumns([scenario]);
+        if (dataColumns.length === columns.length && dataColumns.every(column => columns.includes(column))) {
+            const key = combinationKey(scenario, columns);
+            if (!idsByKey.has(key)) {
+                idsByKey.set(key, scenario.id);
+            }
+        }
+    });
+    const usedIds = new Set(existingScenarios.map(s => s.id));
+    let nextId = Math.max(0, ...existingScenarios.map(s => Number(s.id)).filter(Number.isInteger)) + 1;
+
+    const seenInGroup = new Set<string>();
+    const scenarios: Scenario[] = [];
+    designRows(factors, options).forEach(({ group, levels }) => {
+        const values: Record<string, string | number> = {};
+        factors.forEach((factor, i) => {
+            values[columns[i]] = toCellValue(factor.levels[levels[i]]);
+        });
+        const key = combinationKey(values, columns);
+        if (seenInGroup.has(`${group}|${key}`)) {
+            return;
+        }
+        seenInGroup.add(`${group}|${key}`);
+
+        let id = idsByKey.get(key);
+        if (!id) {
+            while (usedIds.has(String(nextId))) nextId++;
+            id = String(nextId++);
+            usedIds.add(id);
+            idsByKey.set(key, id);
+        }
+        scenarios.push({ id, scenario_group: group, comment: commentsById.get(id) ?? '', ...values });
+    });
+    return scenarios;
+}
+
+/**
+ * Read factors back out of existing scenarios: every descriptive column becomes a factor, its levels
+ * ordered as the project's factor orderings declare (numerically otherwise), and its reference is
+ * the level the most rows share
+ */
+export function inferDesignFactors(scenarios: Scenario[], orderings: FactorOrdering[] = []): DesignFactor[] {
+    const uniqueScenarios = Array.from(new Map(scenarios.map(s => [s.id, s])).values());
+    return getScenarioDataColumns(uniqueScenarios).map(column => {
+        const counts = new Map<string, number>();
+        uniqueScenarios.forEach(scenario => {
+            const value = String(scenario[column] ?? '').trim();
+            if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+        });
+        const ordering = orderings.find(o => o.column === column);
+        const levels = Array.from(counts.keys()).sort((a, b) => {
+            const rankA = ordering ? getLevelRank(ordering, a) : Number(a);
+            const rankB = ordering ? getLevelRank(ordering, b) : Number(b);
+            if (rankA !== null && rankB !== null && !isNaN(rankA) && !isNaN(rankB)) return rankA - rankB;
+            return 0;
+        });
+        const reference = levels.reduce((best, level) => (counts.get(level)! > (counts.get(best) ?? 0) ? level : best), levels[0] ?? '');
+        return { column, levels, reference };
+    });
+}
@@ -1,9 +1,26 @@
-import { Distribution, ScenarioDistribution, UserDistribution, UserScenarioDistribution } from '../types';
+import { ArmId, Distribution, ScenarioDistribution, UserDistribution, UserScenarioDistribution } from '../types';
+import { ACTIVE_PROJECT, ARMS, getArmConfig, REFERENCE_ARM } from './projectUtils';
 
-// Default values for distributions
-export const DEFAULT_BASELINE: Distribution = { min: 0, max: 30, mode: 15, confidence: 100 };
-export const DEFAULT_TREATMENT: Distribution = { min: 0, max: 20, mode: 10, confidence: 100 };
-export const DEFAULT_SLIDER_RANGE = { min: 0, max: 40 };
+// Default values for distributions, set by the active project
+export const DEFAULT_SLIDER_RANGE = ACTIVE_PROJECT.sliderRange;
+
+// Lowest confidence the confidence slider offers; fitted answers stay within it so the range editor can show them
+export const MIN_SLIDER_CONFIDENCE = 50;
+
+export function getArmDefaults(armId: ArmId): Distribution {
+    return getArmConfig(armId).defaults;
+}
+
+export function getEmptyUserDistribution(): UserDistribution {
+    return { min: null, max: null, mode: null, confidence: null };
+}
+
+/**
+ * An arm's values in a scenario; empty when the scenario predates the arm (e.g. a session from before it was added)
+ */
+export function getUserDistribution(userScenario: UserScenarioDistribution, armId: ArmId): UserDistribution {
+    return userScenario[armId] ?? getEmptyUserDistribution();
+}
 
 /**
  * Convert a UserDistribution (with possible nulls) to a full Distribution using defaults
@@ -40,35 +57,68 @@ export function hasUserEdits(userDist: UserDistribution): boolean {
  * Check if a UserScenarioDistribution has any user-edited values
  */
 export function hasScenarioUserEdits(userScenarioDist: UserScenarioDistribution): boolean {
-    return hasUserEdits(userScenarioDist.baseline) || hasUserEdits(userScenarioDist.treatment);
+    return ARMS.some(arm => hasUserEdits(getUserDistribution(userScenarioDist, arm.id)));
 }
 
 /**
  * Convert UserScenarioDistribution to ScenarioDistribution using defaults
  */
 export function userScenarioToScenario(userScenario: UserScenarioDistribution): ScenarioDistribution {
-    return {
-        baseline: userDistributionToDistribution(userScenario.baseline, DEFAULT_BASELINE),
-        treatment: userDistributionToDistribution(userScenario.treatment, DEFAULT_TREATMENT),
-    };
+    return Object.fromEntries(ARMS.map(arm => [
+        arm.id,
+        userDistributionToDistribution(getUserDistribution(userScenario, arm.id), arm.defaults),
+    ]));
 }
 
 /**
  * Convert ScenarioDistribution to UserScenarioDistribution, nullifying defaults
  */
 export function scenarioToUserScenario(scenario: ScenarioDistribution): UserScenarioDistribution {
-    return {
-        baseline: distributionToUserDistribution(scenario.baseline, DEFAULT_BASELINE),
-        treatment: distributionToUserDistribution(scenario.treatment, DEFAULT_TREATMENT),
-    };
+    return Object.fromEntries(ARMS.map(arm => [arm.id, distributionToUserDistribution(scenario[arm.id], arm.defaults)]));
 }
 
 /**
  * Get a default empty UserScenarioDistribution (all nulls)
  */
 export function getEmptyUserScenario(): UserScenarioDistribution {
-    return {
-        baseline: { min: null, max: null, mode: null, confidence: null },
-        treatment: { min: null, max: null, mode: null, confidence: null },
-    };
-}
\ No newline at end of file
+    return Object.fromEntries(ARMS.map(arm => [arm.id, getEmptyUserDistribution()]));
+}
+const RANGE_FIELD_NAMES: Record<'min' | 'mode' | 'max', string> = {
+    min: 'min',
+    mode: 'the most likely value',
+    max: 'max',
+};
+
+/**
+ * Explain why a typed min, mode or max cannot be used, or return null when it can. Compared arms
+ * pass the reference arm's values, which they may not exceed.
+ */
+export function validateRangeValue(
+    field: 'min' | 'mode' | 'max',
+    value: number,
+    current: Distribution,
+    reference: Distribution | null
+): string | null {
+    if (!Number.isFinite(value)) {
+        return 'Enter a number';
+    }
+    if (value < DEFAULT_SLIDER_RANGE.min || value > DEFAULT_SLIDER_RANGE.max) {
+        return `Must be between ${DEFAULT_SLIDER_RANGE.min}% and ${DEFAULT_SLIDER_RANGE.max}%`;
+    }
+    if (field === 'min' && value > current.mode) {
+        return `Min cannot be above the most likely value (${current.mode}%)`;
+    }
+    if (field === 'mode' && value < current.min) {
+        return `The most likely value cannot be below min (${current.min}%)`;
+    }
+    if (field === 'mode' && value > current.max) {
+        return `The most likely value cannot be above max (${current.max}%)`;
+    }
+    if (field === 'max' && value < current.mode) {
+        return `Max cannot be below the most likely value (${current.mode}%)`;
+    }
+    if (reference && value > reference[field]) {
+        return `Cannot exceed ${REFERENCE_ARM.label.toLowerCase()} ${RANGE_FIELD_NAMES[field]} (${reference[field]}%)`;
+    }
+    return null;
+}
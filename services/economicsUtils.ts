@@ -0,0 +1,179 @@
+import { ArmId, Scenario, UserElicitationData } from '../types';
+import { BenefitCoupling, sampleBenefit, sampleQuantile } from './benefitUtils';
+import { formatCSVNumber, getScenarioDataColumns, serializeCSV } from './csvUtils';
+import { hasScenarioUserEdits } from './distributionUtils';
+import { getArmConfig } from './projectUtils';
+
+export interface EconomicInputs {
+    grainPrice: number; // $/t
+    chemicalCost: number; // $/ha per application
+    applicationCost: number; // $/ha per application
+    defaultYield: number; // t/ha, used when a scenario has no yield value
+}
+
+export const DEFAULT_ECONOMIC_INPUTS: EconomicInputs = {
+    grainPrice: 450,
+    chemicalCost: 25,
+    applicationCost: 12,
+    defaultYield: 2,
+};
+
+export type SprayRecommendation = 'spray' | 'no-spray' | 'marginal';
+
+export interface SprayEconomics {
+    scenario: Scenario;
+    armId: ArmId; // The spray program compared with the reference arm
+    yieldValue: number;
+    yieldFromScenario: boolean;
+    sprayCost: number; // $/ha
+    breakEvenBenefit: number; // % of yield that spraying must save to cover its cost
+    expectedNetReturn: number; // $/ha
+    netReturnP05: number;
+    netReturnP95: number;
+    probabilityBreakEven: number;
+    recommendation: SprayRecommendation;
+}
+
+export interface GroupEconomicsSummary {
+    group: string;
+    evaluated: number;
+    spray: number;
+    noSpray: number;
+    marginal: number;
+    meanNetReturn: number;
+    minNetReturn: number;
+    maxNetReturn: number;
+}
+
+/**
+ * Read a scenario's yield (t/ha) from the detected yield column
+ */
+export function getScenarioYield(scenario: Scenario, yieldColumn: string | null): number | null {
+    if (!yieldColumn) return null;
+    const value = Number(scenario[yieldColumn]);
+    return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Spray when both the expected return and the odds of breaking even favour it, hold off when
+ * both are against it, and call it marginal when they disagree
+ */
+export function getRecommendation(expectedNetReturn: number, probabilityBreakEven: number): SprayRecommendation {
+    if (expectedNetReturn > 0 && probabilityBreakEven >= 0.5) return 'spray';
+    if (expectedNetReturn <= 0 && probabilityBreakEven < 0.5) return 'no-spray';
+    return 'marginal';
+}
+
+/**
+ * Net return from an arm's spray program, relative to the reference arm, for every scenario the expert has worked on
+ */
+export function evaluateSprayEconomics(
+    scenarios: Scenario[],
+    userData: UserElicitationData,
+    yieldColumn: string | null,
+    inputs: EconomicInputs,
+    coupling: BenefitCoupling,
+    armId: ArmId
+): SprayEconomics[] {
+    const sprayCost = getArmConfig(armId).applications * (inputs.chemicalCost + inputs.applicationCost);
+    const seen = new Set<string>();
+    const results: SprayEconomics[] = [];
+
+    for (const scenario of scenarios) {
+        const userDist = userData[scenario.id];
+        if (seen.has(scenario.id) || !userDist || !hasScenarioUserEdits(userDist)) {
+            continue;
+        }
+        seen.add(scenario.id);
+
+        const scenarioYield = getScenarioYield(scenario, yieldColumn);
+        const yieldValue = scenarioYield ?? inputs.defaultYield;
+        const valuePerPercent = yieldValue * inputs.grainPrice / 100;
+
+        const netReturns = sampleBenefit(scenario.id, userDist, armId, coupling)
+            .map(benefit => benefit * valuePerPercent - sprayCost)
+            .sort((a, b) => a - b);
+        const expectedNetReturn = netReturns.reduce((sum, value) => sum + value, 0) / netReturns.length;
+        const probabilityBreakEven = netReturns.filter(value => value >= 0).length / netReturns.length;
+
+        results.push({
+            scenario,
+            armId,
+            yieldValue,
+            yieldFromScenario: scenarioYield !== null,
+            sprayCost,
+            breakEvenBenefit: valuePerPercent > 0 ? sprayCost / valuePerPercent : Infinity,
+            expectedNetReturn,
+            netReturnP05: sampleQuantile(netReturns, 0.05),
+            netReturnP95: sampleQuantile(netReturns, 0.95),
+            probabilityBreakEven,
+            recommendation: getRecommendation(expectedNetReturn, probabilityBreakEven),
+        });
+    }
+
+    return results;
+}
+
+/**
+ * Roll scenario economics up by scenario_group; shared scenarios count towards every group they appear in
+ */
+export function summariseEconomicsByGroup(scenarios: Scenario[], economics: SprayEconomics[]): GroupEconomicsSummary[] {
+    const economicsById = new Map(economics.map(e => [e.scenario.id, e]));
+    const groups = Array.from(new Set(scenarios.map(s => s.scenario_group)));
+
+    return groups.map(group => {
+        const groupEconomics = scenarios
+            .filter(s => s.scenario_group === group)
+            .map(s => economicsById.get(s.id))
+            .filter((e): e is SprayEconomics => e !== undefined);
+        const netReturns = groupEconomics.map(e => e.expectedNetReturn);
+
+        return {
+            group,
+            evaluated: groupEconomics.length,
+            spray: groupEconomics.filter(e => e.recommendation === 'spray').length,
+            noSpray: groupEconomics.filter(e => e.recommendation === 'no-spray').length,
+            marginal: groupEconomics.filter(e => e.recommendation === 'marginal').length,
+            meanNetReturn: netReturns.length > 0 ? netReturns.reduce((sum, value) => sum + value, 0) / netReturns.length : NaN,
+            minNetReturn: netReturns.length > 0 ? Math.min(...netReturns) : NaN,
+            maxNetReturn: netReturns.length > 0 ? Math.max(...netReturns) : NaN,
+        };
+    });
+}
+
+/**
+ * Per-scenario economics with the inputs that produced them
+ */
+export function generateEconomicsCSV(scenarios: Scenario[], economics: SprayEconomics[], inputs: EconomicInputs): string {
+    const economicsById = new Map(economics.map(e => [e.scenario.id, e]));
+    const scenarioHeaders = getScenarioDataColumns(scenarios);
+    const headers = [
+        'scenario_id', 'scenario_group', ...scenarioHeaders,
+        'arm', 'grain_price', 'spray_cost', 'yield_t_ha', 'break_even_benefit', 'expected_net_return',
+        'net_return_p05', 'net_return_p95', 'prob_break_even', 'recommendation',
+    ];
+
+    const rows = scenarios
+        .filter(s => economicsById.has(s.id))
+        .map(scenario => {
+            const e = economicsById.get(scenario.id)!;
+            return [
+                scenario.id,
+                scenario.scenario_group ?? '',
+                ...scenarioHeaders.map(h => scenario[h] ?? ''),
+                e.armId,
+                formatCSVNumber(inputs.grainPrice),
+                formatCSVNumber(e.sprayCost),
+                formatCSVNumber(e.yieldValue),
+                // No saving breaks even when the grain or the yield is worth nothing; left blank, as in the panel
+                Number.isFinite(e.breakEvenBenefit) ? formatCSVNumber(e.breakEvenBenefit) : '',
+                formatCSVNumber(e.expectedNetReturn),
+                formatCSVNumber(e.netReturnP05),
+                formatCSVNumber(e.netReturnP95),
+                formatCSVNumber(e.probabilityBreakEven),
+                e.recommendation,
+            ];
+        });
+
+    return serializeCSV([headers, ...rows]);
+}
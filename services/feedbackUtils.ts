@@ -0,0 +1,70 @@
+import { ArmId, UserScenarioDistribution } from '../types';
+import { BenefitCoupling, DEFAULT_BENEFIT_COUPLING, sampleBenefit, sampleQuantile } from './benefitUtils';
+import { fitScenarioDistribution, fittedQuantile } from './fittingUtils';
+import { ARMS, COMPARISON_ARMS, REFERENCE_ARM } from './projectUtils';
+
+// A statement the fitted distributions imply, for the expert to check against their intuition
+export interface ImpliedStatement {
+    armId: ArmId; // The arm whose loss, or whose benefit over the reference arm, it describes
+    kind: 'loss' | 'benefit';
+    text: string;
+}
+
+const formatPercent = (value: number): string => `${Number(value.toFixed(1))}%`;
+
+/**
+ * A probability in words: "1 in N" for small chances that are close to one, otherwise a percentage
+ */
+export function formatChance(probability: number): string {
+    if (probability > 0 && probability <= 0.25) {
+        const odds = Math.round(1 / probability);
+        if (Math.abs(1 / odds - probability) < 0.01) {
+            return `a 1 in ${odds} chance`;
+        }
+    }
+    if (probability <= 0) return 'no chance';
+    if (probability >= 1) return 'certainty';
+    const percent = Math.min(99, Math.round(probability * 100));
+    if (percent === 50) return 'an even chance';
+    // "an 8%", "an 11%", "an 18%", "an 80%"…
+    const article = /^(8|11$|18$)/.test(String(percent)) ? 'an' : 'a';
+    return `${article} ${percent}% chance`;
+}
+
+/**
+ * Plain statements of what a scenario's fitted distributions say: the tails and median of each
+ * arm's loss, and the chance each compared arm saves at least the benefit threshold
+ */
+export function describeImpliedStatements(
+    scenarioId: string,
+    userScenario: UserScenarioDistribution,
+    benefitThreshold: number,
+    coupling: BenefitCoupling = DEFAULT_BENEFIT_COUPLING
+): ImpliedStatement[] {
+    const fitted = fitScenarioDistribution(userScenario);
+    const reference = REFERENCE_ARM.label.toLowerCase();
+
+    const lossStatements = ARMS.flatMap(arm => {
+        const label = arm.label.toLowerCase();
+        const loss = fitted[arm.id];
+        return [
+            `a 1 in 10 chance ${label} loss exceeds ${formatPercent(fittedQuantile(loss, 0.9))}`,
+            `an even chance ${label} loss is above ${formatPercent(fittedQuantile(loss, 0.5))}`,
+            `a 1 in 10 chance ${label} loss is below ${formatPercent(fittedQuantile(loss, 0.1))}`,
+        ].map(text => ({ armId: arm.id, kind: 'loss' as const, text }));
+    });
+
+    const benefitStatements = COMPARISON_ARMS.flatMap(arm => {
+        const label = arm.label.toLowerCase();
+        const samples = sampleBenefit(scenarioId, userScenario, arm.id, coupling);
+        const sorted = [...samples].sort((a, b) => a - b);
+        const atLeastThreshold = samples.filter(value => value >= benefitThreshold).length / samples.length;
+        return [
+            `${formatChance(atLeastThreshold)} ${label} saves at least ${formatPercent(benefitThreshold)} yield compared with ${reference}`,
+            `a 1 in 10 chance ${label} saves more than ${formatPercent(sampleQuantile(sorted, 0.9))} yield`,
+            `a 1 in 10 chance ${label} saves less than ${formatPercent(sampleQuantile(sorted, 0.1))} yield`,
+        ].map(text => ({ armId: arm.id, kind: 'benefit' as const, text }));
+    });
+
+    return [...lossStatements, ...benefitStatements];
+}
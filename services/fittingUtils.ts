@@ -0,0 +1,260 @@
+import { BetaParams, Distribution, DistributionQuantiles, FittedDistribution, FittedScenarioDistribution, UserScenarioDistribution } from '../types';
+import { userScenarioToScenario } from './distributionUtils';
+
+// Weight given to the mode in the Beta-PERT parameterisation
+export const PERT_SHAPE = 4;
+
+// Physical limits of a percentage outcome; widened supports never extend past these
+export const OUTCOME_BOUNDS = { min: 0, max: 100 };
+
+// Cumulative probability of each reported quantile
+export const QUANTILE_PROBABILITIES: Record<keyof DistributionQuantiles, number> = {
+    p05: 0.05,
+    p25: 0.25,
+    p50: 0.5,
+    p75: 0.75,
+    p95: 0.95,
+};
+
+const LANCZOS_COEFFICIENTS = [
+    676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012,
+    9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+/**
+ * Natural log of the gamma function (Lanczos approximation)
+ */
+export function logGamma(x: number): number {
+    if (x < 0.5) {
+        return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+    }
+    const z = x - 1;
+    let sum = 0.99999999999980993;
+    LANCZOS_COEFFICIENTS.forEach((coefficient, index) => {
+        sum += coefficient / (z + index + 1);
+    });
+    const t = z + LANCZOS_COEFFICIENTS.length - 0.5;
+    return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+function logBetaFunction(alpha: number, beta: number): number {
+    return logGamma(alpha) + logGamma(beta) - logGamma(alpha + beta);
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz's method)
+function betaContinuedFraction(x: number, alpha: number, beta: number): number {
+    const maxIterations = 200;
+    const epsilon = 3e-14;
+    const tiny = 1e-300;
+
+    let c = 1;
+    let d = 1 - (alpha + beta) * x / (alpha + 1);
+    if (Math.abs(d) < tiny) d = tiny;
+    d = 1 / d;
+    let result = d;
+
+    for (let m = 1; m <= maxIterations; m++) {
+        const m2 = 2 * m;
+        let numerator = m * (beta - m) * x / ((alpha + m2 - 1) * (alpha + m2));
+        d = 1 + numerator * d;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + numerator / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        result *= d * c;
+
+        numerator = -(alpha + m) * (alpha + beta + m) * x / ((alpha + m2) * (alpha + m2 + 1));
+        d = 1 + numerator * d;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + numerator / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        result *= delta;
+
+        if (Math.abs(delta - 1) < epsilon) {
+            break;
+        }
+    }
+    return result;
+}
+
+/**
+ * Density of a standard Beta(alpha, beta) distribution on [0, 1]
+ */
+export function betaDensity(x: number, alpha: number, beta: number): number {
+    if (x < 0 || x > 1) return 0;
+    if (x === 0) {
+        if (alpha < 1) return Infinity;
+        return alpha === 1 ? beta : 0;
+    }
+    if (x === 1) {
+        if (beta < 1) return Infinity;
+        return beta === 1 ? alpha : 0;
+    }
+    return Math.exp((alpha - 1) * Math.log(x) + (beta - 1) * Math.log(1 - x) - logBetaFunction(alpha, beta));
+}
+
+/**
+ * Cumulative probability of a standard Beta(alpha, beta) distribution (regularised incomplete beta)
+ */
+export function betaCdf(x: number, alpha: number, beta: number): number {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+
+    const front = Math.exp(
+        alpha * Math.log(x) + beta * Math.log(1 - x) - logBetaFunction(alpha, beta)
+    );
+
+    // The continued fraction converges fastest on the side of the mean
+    if (x < (alpha + 1) / (alpha + beta + 2)) {
+        return front * betaContinuedFraction(x, alpha, beta) / alpha;
+    }
+    return 1 - front * betaContinuedFraction(1 - x, beta, alpha) / beta;
+}
+
+/**
+ * Inverse cumulative probability of a standard Beta(alpha, beta) distribution
+ */
+export function betaQuantile(p: number, alpha: number, beta: number): number {
+    if (p <= 0) return 0;
+    if (p >= 1) return 1;
+
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 60; i++) {
+        const middle = (low + high) / 2;
+        if (betaCdf(middle, alpha, beta) < p) {
+            low = middle;
+        } else {
+            high = middle;
+        }
+    }
+    return (low + high) / 2;
+}
+
+/**
+ * Beta-PERT shape parameters for a mode within [lower, upper]
+ */
+export function pertParams(lower: number, mode: number, upper: number): BetaParams {
+    const width = upper - lower;
+    if (width <= 0) {
+        return { alpha: 1, beta: 1 };
+    }
+    return {
+        alpha: 1 + PERT_SHAPE * (mode - lower) / width,
+        beta: 1 + PERT_SHAPE * (upper - mode) / width,
+    };
+}
+
+/**
+ * Build a fitted distribution (moments and quantiles) from Beta parameters scaled onto [lower, upper]
+ */
+export function buildFittedDistribution(params: BetaParams, lower: number, upper: number): FittedDistribution {
+    const { alpha, beta } = params;
+    const width = upper - lower;
+    const total = alpha + beta;
+
+    const quantiles = {} as DistributionQuantiles;
+    (Object.keys(QUANTILE_PROBABILITIES) as (keyof DistributionQuantiles)[]).forEach(key => {
+        quantiles[key] = width > 0 ? lower + width * betaQuantile(QUANTILE_PROBABILITIES[key], alpha, beta) : lower;
+    });
+
+    return {
+        alpha,
+        beta,
+        lower,
+        upper,
+        mean: lower + width * alpha / total,
+        variance: width * width * alpha * beta / (total * total * (total + 1)),
+        quantiles,
+    };
+}
+
+/**
+ * Fit a scaled Beta-PERT distribution to an elicited min/mode/max, where confidence is the
+ * percentage of probability mass inside [min, max]. Below 100% the support is widened past
+ * min and max (within OUTCOME_BOUNDS) until the interval holds exactly that mass.
+ */
+export function fitDistribution(dist: Distribution): FittedDistribution {
+    const width = dist.max - dist.min;
+    const targetMass = Math.min(1, Math.max(0, dist.confidence / 100));
+    if (width <= 0 || targetMass >= 1) {
+        return buildFittedDistribution(pertParams(dist.min, dist.mode, dist.max), dist.min, dist.max);
+    }
+
+    const supportFor = (expansion: number) => {
+        const lower = Math.max(OUTCOME_BOUNDS.min, dist.min - expansion);
+        const upper = Math.min(OUTCOME_BOUNDS.max, dist.max + expansion);
+        return { lower, upper, params: pertParams(lower, dist.mode, upper) };
+    };
+
+    const massInside = (expansion: number) => {
+        const { lower, upper, params } = supportFor(expansion);
+        const span = upper - lower;
+        return betaCdf((dist.max - lower) / span, params.alpha, params.beta)
+            - betaCdf((dist.min - lower) / span, params.alpha, params.beta);
+    };
+
+    // Mass inside [min, max] shrinks as the support widens, so bisect on the expansion
+    let low = 0;
+    let high = OUTCOME_BOUNDS.max - OUTCOME_BOUNDS.min;
+    if (massInside(high) < targetMass) {
+        for (let i = 0; i < 50; i++) {
+            const middle = (low + high) / 2;
+            if (massInside(middle) > targetMass) {
+                low = middle;
+            } else {
+                high = middle;
+            }
+        }
+    }
+
+    const { lower, upper, params } = supportFor(high);
+    return buildFittedDistribution(params, lower, upper);
+}
+
+/**
+ * Fit every arm of a scenario, filling unedited values from the defaults
+ */
+export function fitScenarioDistribution(userScenario: UserScenarioDistribution): FittedScenarioDistribution {
+    const scenario = userScenarioToScenario(userScenario);
+    return Object.fromEntries(Object.entries(scenario).map(([armId, dist]) => [armId, fitDistribution(dist)]));
+}
+
+/**
+ * Density of a fitted distribution at x (on the outcome scale)
+ */
+export function fittedDensity(fitted: FittedDistribution, x: number): number {
+    const width = fitted.upper - fitted.lower;
+    if (width <= 0) return 0;
+    return betaDensity((x - fitted.lower) / width, fitted.alpha, fitted.beta) / width;
+}
+
+/**
+ * Cumulative probability of a fitted distribution at x (on the outcome scale)
+ */
+export function fittedCdf(fitted: FittedDistribution, x: number): number {
+    const width = fitted.upper - fitted.lower;
+    if (width <= 0) return x >= fitted.lower ? 1 : 0;
+    return betaCdf((x - fitted.lower) / width, fitted.alpha, fitted.beta);
+}
+
+/**
+ * Value of a fitted distribution at cumulative probability p (on the outcome scale)
+ */
+export function fittedQuantile(fitted: FittedDistribution, p: number): number {
+    return fitted.lower + (fitted.upper - fitted.lower) * betaQuantile(p, fitted.alpha, fitted.beta);
+}
+
+/**
+ * Evaluate the density of a fitted distribution on an evenly spaced grid
+ */
+export function getDensityCurve(fitted: FittedDistribution, xMin: number, xMax: number, points = 200): { x: number; density: number }[] {
+    const step = (xMax - xMin) / (points - 1);
+    return Array.from({ length: points }, (_, index) => {
+        const x = xMin + index * step;
+        return { x, density: fittedDensity(fitted, x) };
+    });
+}
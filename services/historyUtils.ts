@@ -0,0 +1,65 @@
+export interface HistoryEntry<T> {
+    state: T; // State before the change (in `past`) or after it (in `future`)
+    label: string;
+    key?: string; // Consecutive changes with the same key inside the coalescing window merge into one step
+    time: number;
+}
+
+export interface EditHistory<T> {
+    past: HistoryEntry<T>[];
+    future: HistoryEntry<T>[];
+}
+
+export const MAX_HISTORY_LENGTH = 100;
+// A slider drag fires many changes; merge them when they arrive this close together
+export const HISTORY_COALESCE_MS = 1000;
+
+export const createEmptyHistory = <T>(): EditHistory<T> => ({ past: [], future: [] });
+
+/**
+ * Record a change given the state just before it. Any redo steps are discarded.
+ */
+export function recordHistory<T>(history: EditHistory<T>, previousState: T, label: string, key?: string, time: number = Date.now()): EditHistory<T> {
+    const last = history.past[history.past.length - 1];
+    if (key && last && last.key === key && time - last.time < HISTORY_COALESCE_MS) {
+        // Keep the older "before" state so the whole drag undoes in one step
+        const merged = { ...last, time };
+        return { past: [...history.past.slice(0, -1), merged], future: [] };
+    }
+    const past = [...history.past, { state: previousState, label, key, time }];
+    return { past: past.slice(-MAX_HISTORY_LENGTH), future: [] };
+}
+
+/**
+ * Step back one change, returning the state to restore, or null when there is nothing to undo
+ */
+export function undoHistory<T>(history: EditHistory<T>, currentState: T): { history: EditHistory<T>; state: T } | null {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) {
+        return null;
+    }
+    return {
+        history: {
+            past: history.past.slice(0, -1),
+            future: [...history.future, { ...entry, state: currentState }],
+        },
+        state: entry.state,
+    };
+}
+
+/**
+ * Re-apply the most recently undone change, or null when there is nothing to redo
+ */
+export function redoHistory<T>(history: EditHistory<T>, currentState: T): { history: EditHistory<T>; state: T } | null {
+    const entry = history.future[history.future.length - 1];
+    if (!entry) {
+        return null;
+    }
+    return {
+        history: {
+            past: [...history.past, { ...entry, state: currentState, time: 0 }], // Never coalesce into a redone step
+            future: history.future.slice(0, -1),
+        },
+        state: entry.state,
+    };
+}
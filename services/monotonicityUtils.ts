@@ -0,0 +1,100 @@
+import { ArmId, FactorOrdering, Scenario, UserElicitationData } from '../types';
+import { getScenarioDataColumns } from './csvUtils';
+import { hasUserEdits, userDistributionToDistribution } from './distributionUtils';
+import { ARMS } from './projectUtils';
+
+export interface MonotonicityFlag {
+    id: string;
+    group: string;
+    column: string;
+    direction: FactorOrdering['direction'];
+    type: ArmId;
+    lowerScenarioId: string; // Scenario at the lower level of the factor
+    higherScenarioId: string;
+    lowerLevel: string;
+    higherLevel: string;
+    lowerMode: number;
+    higherMode: number;
+}
+
+const normaliseLevel = (value: unknown): string => String(value ?? '').trim().toLowerCase();
+
+/**
+ * Rank of a level within a declared ordering, or null when the level is not declared
+ */
+export function getLevelRank(ordering: FactorOrdering, value: unknown): number | null {
+    if (ordering.levels && ordering.levels.length > 0) {
+        const index = ordering.levels.findIndex(level => normaliseLevel(level) === normaliseLevel(value));
+        return index === -1 ? null : index;
+    }
+    const numeric = typeof value === 'number' ? value : parseFloat(String(value));
+    return Number.isFinite(numeric) ? numeric : null;
+}
+
+/**
+ * Within each group, compare scenarios that differ only in one ordered factor and flag arms
+ * whose mode moves against the declared direction. Only arms the expert has edited are compared.
+ */
+export function findMonotonicityViolations(
+    scenarios: Scenario[],
+    userData: UserElicitationData,
+    orderings: FactorOrdering[]
+): MonotonicityFlag[] {
+    const columns = getScenarioDataColumns(scenarios).filter(column => column !== 'comment');
+    const flags = new Map<string, MonotonicityFlag>();
+    const groups = Array.from(new Set(scenarios.map(s => s.scenario_group)));
+
+    for (const group of groups) {
+        const groupScenarios = scenarios.filter(s => s.scenario_group === group);
+
+        for (const ordering of orderings) {
+            if (!columns.includes(ordering.column)) continue;
+            const otherColumns = columns.filter(column => column !== ordering.column);
+
+            for (let i = 0; i < groupScenarios.length; i++) {
+                for (let j = i + 1; j < groupScenarios.length; j++) {
+                    const a = groupScenarios[i];
+                    const b = groupScenarios[j];
+                    if (a.id === b.id || otherColumns.some(column => normaliseLevel(a[column]) !== normaliseLevel(b[column]))) {
+                        continue;
+                    }
+
+                    const rankA = getLevelRank(ordering, a[ordering.column]);
+                    const rankB = getLevelRank(ordering, b[ordering.column]);
+                    if (rankA === null || rankB === null || rankA === rankB) continue;
+                    const [lower, higher] = rankA < rankB ? [a, b] : [b, a];
+
+                    ARMS.forEach(({ id: type, defaults }) => {
+                        const lowerUser = userData[lower.id]?.[type];
+                        const higherUser = userData[higher.id]?.[type];
+                        if (!lowerUser || !higherUser || !hasUserEdits(lowerUser) || !hasUserEdits(higherUser)) return;
+
+                        const lowerMode = userDistributionToDistribution(lowerUser, defaults).mode;
+                        const higherMode = userDistributionToDistribution(higherUser, defaults).mode;
+                        const violated = ordering.direction === 'increasing' ? lowerMode > higherMode : lowerMode < higherMode;
+                        if (!violated) return;
+
+                        const id = `${ordering.column}|${type}|${lower.id}|${higher.id}`;
+                        if (!flags.has(id)) {
+                            flags.set(id, {
+                                id,
+                                group,
+                                column: ordering.column,
+                                direction: ordering.direction,
+                                type,
+                                lowerScenarioId: lower.id,
+                                higherScenarioId: higher.id,
+                                lowerLevel: String(lower[ordering.column]),
+                                higherLevel: String(higher[ordering.column]),
+                                lowerMode,
+                                higherMode,
+                            });
+                        }
+                    });
+                }
+            }
+        }
+    }
+
+    return Array.from(flags.values());
+}
@@ -0,0 +1,115 @@
+import { ACTIVE_PROJECT, DEFAULT_PROJECT_ID } from './projectUtils';
+import { buildSessionFile, migrateSessionFile, SessionSnapshot } from './sessionFileUtils';
+
+export interface SavedSessionInfo {
+    id: string;
+    name: string;
+    createdAt: string; // ISO timestamps
+    updatedAt: string;
+}
+
+// Each project keeps its own sessions; the original project keeps the unqualified keys it has always used
+const STORAGE_PREFIX = ACTIVE_PROJECT.id === DEFAULT_PROJECT_ID ? 'elicitation' : `elicitation.${ACTIVE_PROJECT.id}`;
+const INDEX_KEY = `${STORAGE_PREFIX}.sessions`;
+const ACTIVE_KEY = `${STORAGE_PREFIX}.activeSession`;
+const sessionKey = (id: string) => `${STORAGE_PREFIX}.session.${id}`;
+
+export const AUTOSAVE_DELAY_MS = 800;
+
+const readJSON = <T>(key: string): T | null => {
+    try {
+        const text = localStorage.getItem(key);
+        return text ? JSON.parse(text) as T : null;
+    } catch (error) {
+        console.error(`Failed to read ${key} from local storage:`, error);
+        return null;
+    }
+};
+
+/**
+ * Saved sessions, most recently updated first
+ */
+export function listSavedSessions(): SavedSessionInfo[] {
+    const sessions = readJSON<SavedSessionInfo[]>(INDEX_KEY) ?? [];
+    return [...sessions].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+// Storage can be blocked outright (private browsing, disabled cookies); the app then runs without autosave
+export function getActiveSessionId(): string | null {
+    try {
+        return localStorage.getItem(ACTIVE_KEY);
+    } catch (error) {
+        console.error('Failed to read the active session from local storage:', error);
+        return null;
+    }
+}
+
+export function setActiveSessionId(id: string): void {
+    try {
+        localStorage.setItem(ACTIVE_KEY, id);
+    } catch (error) {
+        console.error('Failed to record the active session in local storage:', error);
+    }
+}
+
+/**
+ * Read a saved session, migrating it to the current schema; null when it is missing or unreadable
+ */
+export function loadSessionSnapshot(id: string): SessionSnapshot | null {
+    const raw = readJSON<unknown>(sessionKey(id));
+    if (raw === null) {
+        return null;
+    }
+    try {
+        return migrateSessionFile(raw).session;
+    } catch (error) {
+        console.error(`Failed to migrate saved session ${id}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Register a new, empty session under the given name and return its details
+ */
+export function createSavedSession(name: string, createdAt?: string): SavedSessionInfo {
+    const now = new Date().toISOString();
+    const info: SavedSessionInfo = { id: `session_${Date.now()}`, name, createdAt: createdAt ?? now, updatedAt: now };
+    localStorage.setItem(INDEX_KEY, JSON.stringify([...listSavedSessions(), info]));
+    return info;
+}
+
+/**
+ * Write a snapshot and bump the session's modified time. Throws when storage is full or unavailable.
+ */
+export function saveSessionSnapshot(id: string, snapshot: SessionSnapshot): SavedSessionInfo | null {
+    const sessions = listSavedSessions();
+    const info = sessions.find(s => s.id === id);
+    if (!info) {
+        return null;
+    }
+    const updated = { ...info, updatedAt: new Date().toISOString() };
+    const file = buildSessionFile(snapshot, { name: info.name, createdAt: info.createdAt, modifiedAt: updated.updatedAt });
+    localStorage.setItem(sessionKey(id), JSON.stringify(file));
+    localStorage.setItem(INDEX_KEY, JSON.stringify(sessions.map(s => s.id === id ? updated : s)));
+    return updated;
+}
+
+export function renameSavedSession(id: string, name: string): void {
+    const sessions = listSavedSessions().map(s => s.id === id ? { ...s, name } : s);
+    localStorage.setItem(INDEX_KEY, JSON.stringify(sessions));
+}
+
+export function deleteSavedSession(id: string): void {
+    localStorage.removeItem(sessionKey(id));
+    localStorage.setItem(INDEX_KEY, JSON.stringify(listSavedSessions().filter(s => s.id !== id)));
+    if (getActiveSessionId() === id) {
+        localStorage.removeItem(ACTIVE_KEY);
+    }
+}
+
+/**
+ * Default name for a new session, e.g. "Session 19 Oct 2026, 14:05"
+ */
+export function getDefaultSessionName(date: Date = new Date()): string {
+    return `Session ${date.toLocaleString(undefined, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })}`;
+}
@@ -0,0 +1,233 @@
+import { ArmId, DistributionQuantiles, FittedDistribution, Scenario, SeedAnswers } from '../types';
+import { formatCSVNumber, getScenarioDataColumns, serializeCSV, ParsedCSVData } from './csvUtils';
+import { hasScenarioUserEdits } from './distributionUtils';
+import { buildFittedDistribution, fitScenarioDistribution, fittedDensity, QUANTILE_PROBABILITIES } from './fittingUtils';
+import { ARMS, REFERENCE_ARM } from './projectUtils';
+
+export type PoolingMethod = 'linear' | 'logarithmic';
+
+export interface ExpertSession {
+    name: string;
+    weight: number;
+    data: ParsedCSVData;
+    seedAnswers?: SeedAnswers; // Only session files carry them; CSV results do not
+}
+
+export interface ExpertContribution {
+    expert: string;
+    weight: number; // Normalised across the experts who answered this scenario
+    fitted: FittedDistribution;
+}
+
+export interface PooledDistribution {
+    points: { x: number; density: number }[];
+    mean: number;
+    variance: number;
+    quantiles: DistributionQuantiles;
+    fitted: FittedDistribution | null; // Moment-matched Beta, null when no Beta fits the pooled moments
+}
+
+export interface PooledArm {
+    contributions: ExpertContribution[];
+    pooled: PooledDistribution | null; // Null when nobody answered or the log pool supports don't overlap
+}
+
+export interface PooledScenario {
+    scenario: Scenario;
+    arms: Record<ArmId, PooledArm>;
+}
+
+const POOLING_GRID_POINTS = 401;
+
+/**
+ * Pool expert densities on a shared grid; linear is a weighted mixture, logarithmic a
+ * normalised weighted geometric mean
+ */
+export function poolDensities(contributions: ExpertContribution[], method: PoolingMethod): PooledDistribution | null {
+    if (contributions.length === 0) {
+        return null;
+    }
+
+    const xMin = Math.min(...contributions.map(c => c.fitted.lower));
+    const xMax = Math.max(...contributions.map(c => c.fitted.upper));
+    if (xMax <= xMin) {
+        return null;
+    }
+    const step = (xMax - xMin) / (POOLING_GRID_POINTS - 1);
+    const xs = Array.from({ length: POOLING_GRID_POINTS }, (_, index) => xMin + index * step);
+
+    const raw = xs.map(x => {
+        if (method === 'linear') {
+            return contributions.reduce((sum, c) => sum + c.weight * fittedDensity(c.fitted, x), 0);
+        }
+        let logSum = 0;
+        for (const c of contributions) {
+            const density = fittedDensity(c.fitted, x);
+            if (density <= 0 || !Number.isFinite(density)) {
+                return 0;
+            }
+            logSum += c.weight * Math.log(density);
+        }
+        return Math.exp(logSum);
+    });
+
+    // Trapezoidal normalisation and cumulative mass
+    const cumulative = [0];
+    for (let i = 1; i < xs.length; i++) {
+        cumulative.push(cumulative[i - 1] + (raw[i - 1] + raw[i]) * step / 2);
+    }
+    const total = cumulative[cumulative.length - 1];
+    if (!(total > 0)) {
+        return null;
+    }
+
+    const density = raw.map(value => value / total);
+    const cdf = cumulative.map(value => value / total);
+
+    let mean = 0;
+    let secondMoment = 0;
+    for (let i = 1; i < xs.length; i++) {
+        mean += (xs[i - 1] * density[i - 1] + xs[i] * density[i]) * step / 2;
+        secondMoment += (xs[i - 1] * xs[i - 1] * density[i - 1] + xs[i] * xs[i] * density[i]) * step / 2;
+    }
+    const variance = Math.max(0, secondMoment - mean * mean);
+
+    const quantileAt = (p: number): number => {
+        const index = cdf.findIndex(value => value >= p);
+        if (index <= 0) return xs[Math.max(index, 0)];
+        const span = cdf[index] - cdf[index - 1];
+        const ratio = span > 0 ? (p - cdf[index - 1]) / span : 0;
+        return xs[index - 1] + ratio * step;
+    };
+
+    const quantiles = {} as DistributionQuantiles;
+    (Object.keys(QUANTILE_PROBABILITIES) as (keyof DistributionQuantiles)[]).forEach(key => {
+        quantiles[key] = quantileAt(QUANTILE_PROBABILITIES[key]);
+    });
+
+    // Moment-match a Beta on the pooled support so downstream models get alpha/beta
+    const firstIndex = density.findIndex(value => value > 0);
+    let lastIndex = density.length - 1;
+    while (lastIndex > firstIndex && density[lastIndex] <= 0) lastIndex--;
+    const lower = xs[Math.max(0, firstIndex - 1)];
+    const upper = xs[Math.min(xs.length - 1, lastIndex + 1)];
+    const width = upper - lower;
+    let fitted: FittedDistribution | null = null;
+    if (width > 0 && variance > 0) {
+        const mu = (mean - lower) / width;
+        const sigmaSquared = variance / (width * width);
+        const concentration = mu * (1 - mu) / sigmaSquared - 1;
+        if (concentration > 0) {
+            fitted = buildFittedDistribution({ alpha: mu * concentration, beta: (1 - mu) * concentration }, lower, upper);
+        }
+    }
+
+    return {
+        points: xs.map((x, index) => ({ x, density: density[index] })),
+        mean,
+        variance,
+        quantiles,
+        fitted,
+    };
+}
+
+/**
+ * Match scenarios across expert sessions by scenario_id and pool each arm
+ */
+export function aggregateSessions(sessions: ExpertSession[], method: PoolingMethod): PooledScenario[] {
+    const scenarioById = new Map<string, Scenario>();
+    sessions.forEach(session => {
+        session.data.scenarios.forEach(scenario => {
+            if (!scenarioById.has(scenario.id)) {
+                scenarioById.set(scenario.id, scenario);
+            }
+        });
+    });
+
+    return Array.from(scenarioById.values()).map(scenario => {
+        const answered = sessions
+            .map(session => ({ session, userDist: session.data.userElicitationData[scenario.id] }))
+            .filter(({ session, userDist }) => session.weight > 0 && userDist && hasScenarioUserEdits(userDist));
+        const totalWeight = answered.reduce((sum, { session }) => sum + session.weight, 0);
+
+        const contributions = answered.map(({ session, userDist }) => ({
+            expert: session.name,
+            weight: session.weight / totalWeight,
+            fitted: fitScenarioDistribution(userDist),
+        }));
+
+        const poolArm = (armId: ArmId): PooledArm => {
+            const armContributions = contributions.map(c => ({ expert: c.expert, weight: c.weight, fitted: c.fitted[armId] }));
+            return { contributions: armContributions, pooled: poolDensities(armContributions, method) };
+        };
+
+        return {
+            scenario,
+            arms: Object.fromEntries(ARMS.map(arm => [arm.id, poolArm(arm.id)])),
+        };
+    });
+}
+
+const pooledValues = (pooled: PooledDistribution | null): string[] => {
+    if (!pooled) {
+        return Array(9).fill('');
+    }
+    const fittedValues = pooled.fitted
+        ? [pooled.fitted.alpha, pooled.fitted.beta, pooled.fitted.lower, pooled.fitted.upper].map(formatCSVNumber)
+        : Array(4).fill('');
+    return [
+        ...[pooled.mean, Math.sqrt(pooled.variance), pooled.quantiles.p05, pooled.quantiles.p50, pooled.quantiles.p95].map(formatCSVNumber),
+        ...fittedValues,
+    ];
+};
+
+/**
+ * One row per scenario with the pooled summaries and moment-matched Beta for each arm
+ */
+export function generatePooledCSV(pooledScenarios: PooledScenario[], method: PoolingMethod): string {
+    const scenarioHeaders = getScenarioDataColumns(pooledScenarios.map(p => p.scenario));
+    const armHeaders = ARMS.flatMap(arm =>
+        ['mean', 'sd', 'p05', 'p50', 'p95', 'alpha', 'beta', 'lower', 'upper'].map(suffix => `${arm.csvPrefix}_pooled_${suffix}`)
+    );
+    const headers = ['scenario_id', 'scenario_group', ...scenarioHeaders, 'pooling_method', 'n_experts', ...armHeaders];
+
+    const rows = pooledScenarios.map(({ scenario, arms }) => [
+        scenario.id,
+        scenario.scenario_group ?? '',
+        ...scenarioHeaders.map(h => scenario[h] ?? ''),
+        method,
+        arms[REFERENCE_ARM.id].contributions.length,
+        ...ARMS.flatMap(arm => pooledValues(arms[arm.id].pooled)),
+    ]);
+
+    return serializeCSV([headers, ...rows]);
+}
+
+/**
+ * Long-format table of each expert's fitted parameters alongside the pooled parameters
+ */
+export function generateParameterTableCSV(pooledScenarios: PooledScenario[], method: PoolingMethod): string {
+    const headers = ['scenario_id', 'arm', 'source', 'weight', 'alpha', 'beta', 'lower', 'upper', 'mean', 'variance', 'p05', 'p50', 'p95'];
+    const rows: string[][] = [];
+
+    pooledScenarios.forEach(pooledScenario => {
+        ARMS.forEach(({ id: armId }) => {
+            const arm = pooledScenario.arms[armId];
+            const fittedRow = (source: string, weight: string, fitted: FittedDistribution) => [
+                pooledScenario.scenario.id,
+                armId,
+                source,
+                weight,
+                ...[fitted.alpha, fitted.beta, fitted.lower, fitted.upper, fitted.mean, fitted.variance,
+                    fitted.quantiles.p05, fitted.quantiles.p50, fitted.quantiles.p95].map(formatCSVNumber),
+            ];
+
+            arm.contributions.forEach(c => rows.push(fittedRow(c.expert, formatCSVNumber(c.weight), c.fitted)));
+            if (arm.pooled?.fitted) {
+                rows.push(fittedRow(`pooled_${method}`, '', arm.pooled.fitted));
+            }
+        });
+    });
+
+    return serializeCSV([headers, ...rows]);
+}
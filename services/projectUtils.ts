@@ -0,0 +1,291 @@
+import { load } from 'js-yaml';
+import { ArmColour, ArmConfig, ArmId, Distribution, ElicitationProtocol, FactorOrdering, ProjectConfig, SeedQuestion } from '../types';
+
+export const DEFAULT_PROJECT_ID = 'lupin-sclerotinia';
+
+// Arm ids and CSV prefixes become object keys and column names, so keep them to plain identifiers
+const IDENTIFIER_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+// Tailwind classes and chart colour for each arm colour a project can choose
+export const ARM_PALETTES: Record<ArmColour, { hex: string; track: string; range: string; handle: string; text: string; accent: string }> = {
+    blue: { hex: '#2563eb', track: 'bg-blue-200', range: 'bg-blue-400', handle: 'bg-blue-600 hover:bg-blue-700 border-blue-700', text: 'text-blue-600', accent: 'accent-blue-500' },
+    green: { hex: '#16a34a', track: 'bg-green-200', range: 'bg-green-400', handle: 'bg-green-600 hover:bg-green-700 border-green-700', text: 'text-green-600', accent: 'accent-green-500' },
+    amber: { hex: '#d97706', track: 'bg-amber-200', range: 'bg-amber-400', handle: 'bg-amber-600 hover:bg-amber-700 border-amber-700', text: 'text-amber-600', accent: 'accent-amber-500' },
+    purple: { hex: '#9333ea', track: 'bg-purple-200', range: 'bg-purple-400', handle: 'bg-purple-600 hover:bg-purple-700 border-purple-700', text: 'text-purple-600', accent: 'accent-purple-500' },
+    red: { hex: '#dc2626', track: 'bg-red-200', range: 'bg-red-400', handle: 'bg-red-600 hover:bg-red-700 border-red-700', text: 'text-red-600', accent: 'accent-red-500' },
+    teal: { hex: '#0d9488', track: 'bg-teal-200', range: 'bg-teal-400', handle: 'bg-teal-600 hover:bg-teal-700 border-teal-700', text: 'text-teal-600', accent: 'accent-teal-500' },
+};
+
+const PROTOCOLS: ElicitationProtocol[] = ['range', 'quantile', 'chips'];
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readStringList = (value: unknown, field: string): string[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        throw new Error(`"${field}" must be a list of text items`);
+    }
+    return value;
+};
+
+const readNumber = (value: unknown, field: string): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`"${field}" must be a number`);
+    }
+    return value;
+};
+
+const readDistribution = (value: unknown, field: string): Distribution => {
+    if (!isRecord(value)) {
+        throw new Error(`"${field}" must give min, mode, max and confidence`);
+    }
+    const dist = {
+        min: readNumber(value.min, `${field}.min`),
+        mode: readNumber(value.mode, `${field}.mode`),
+        max: readNumber(value.max, `${field}.max`),
+        confidence: readNumber(value.confidence, `${field}.confidence`),
+    };
+    if (!(dist.min <= dist.mode && dist.mode <= dist.max)) {
+        throw new Error(`"${field}" must satisfy min ≤ mode ≤ max`);
+    }
+    return dist;
+};
+
+const readArm = (value: unknown, index: number): ArmConfig => {
+    const field = `arms[${index}]`;
+    if (!isRecord(value)) {
+        throw new Error(`"${field}" must be an object`);
+    }
+    if (typeof value.id !== 'string' || !IDENTIFIER_PATTERN.test(value.id)) {
+        throw new Error(`"${field}.id" must start with a letter and use only letters, digits and underscores`);
+    }
+    if (!(value.colour in ARM_PALETTES)) {
+        throw new Error(`"${field}.colour" must be one of ${Object.keys(ARM_PALETTES).join(', ')}`);
+    }
+    const csvPrefix = value.csvPrefix ?? value.id;
+    if (typeof csvPrefix !== 'string' || !IDENTIFIER_PATTERN.test(csvPrefix)) {
+        throw new Error(`"${field}.csvPrefix" must start with a letter and use only letters, digits and underscores`);
+    }
+    // The reference arm is the untreated comparison, so by default it costs nothing
+    const applications = value.applications === undefined ? (index === 0 ? 0 : 1) : readNumber(value.applications, `${field}.applications`);
+    if (applications < 0) {
+        throw new Error(`"${field}.applications" cannot be negative`);
+    }
+    return {
+        id: value.id,
+        label: typeof value.label === 'string' && value.label.trim() ? value.label.trim() : value.id,
+        colour: value.colour,
+        defaults: readDistribution(value.defaults, `${field}.defaults`),
+        csvPrefix,
+        applications,
+    };
+};
+
+const readCount = (value: unknown, field: string, fallback: number, least: number): number => {
+    if (value === undefined) return fallback;
+    const count = readNumber(value, field);
+    if (!Number.isInteger(count) || count < least) {
+        throw new Error(`"${field}" must be a whole number of at least ${least}`);
+    }
+    return count;
+};
+
+const readChips = (value: unknown): ProjectConfig['chips'] => {
+    const chips = value ?? {};
+    if (!isRecord(chips)) {
+        throw new Error('"chips" must give bins and total');
+    }
+    return {
+        bins: readCount(chips.bins, 'chips.bins', 10, 2),
+        total: readCount(chips.total, 'chips.total', 20, 1),
+    };
+};
+
+const findDuplicate = (values: string[]): string | undefined =>
+    values.find((value, index) => values.indexOf(value) !== index);
+
+const readFactorOrdering = (value: unknown, index: number): FactorOrdering => {
+    const field = `factorOrderings[${index}]`;
+    if (!isRecord(value) || typeof value.column !== 'string') {
+        throw new Error(`"${field}" must name a column`);
+    }
+    if (value.direction !== 'increasing' && value.direction !== 'decreasing') {
+        throw new Error(`"${field}.direction" must be increasing or decreasing`);
+    }
+    return {
+        column: value.column,
+        levels: value.levels === undefined
+            ? undefined
+            : readStringList(Array.isArray(value.levels) ? value.levels.map(String) : value.levels, `${field}.levels`),
+        direction: value.direction,
+    };
+};
+
+const readSeedQuestion = (value: unknown, index: number): SeedQuestion => {
+    const field = `seedQuestions[${index}]`;
+    if (!isRecord(value)) {
+        throw new Error(`"${field}" must be an object`);
+    }
+    if (typeof value.id !== 'string' || !IDENTIFIER_PATTERN.test(value.id)) {
+        throw new Error(`"${field}.id" must start with a letter and use only letters, digits and underscores`);
+    }
+    if (typeof value.question !== 'string' || !value.question.trim()) {
+        throw new Error(`"${field}.question" is required`);
+    }
+    return {
+        id: value.id,
+        question: value.question.trim(),
+        units: typeof value.units === 'string' ? value.units.trim() : '',
+        realisation: readNumber(value.realisation, `${field}.realisation`),
+    };
+};
+
+/**
+ * Parse and validate a project.yaml file
+ */
+export function parseProjectConfig(id: string, yamlText: string): ProjectConfig {
+    const raw = load(yamlText);
+    if (!isRecord(raw)) {
+        throw new Error('Project file must be a YAML mapping');
+    }
+    if (typeof raw.title !== 'string' || !raw.title.trim()) {
+        throw new Error('"title" is required');
+    }
+    if (typeof raw.defaultCsv !== 'string' || !raw.defaultCsv.trim()) {
+        throw new Error('"defaultCsv" must name the scenario CSV in the project folder');
+    }
+    if (!isRecord(raw.sliderRange)) {
+        throw new Error('"sliderRange" must give min and max');
+    }
+    const sliderRange = {
+        min: readNumber(raw.sliderRange.min, 'sliderRange.min'),
+        max: readNumber(raw.sliderRange.max, 'sliderRange.max'),
+    };
+    if (sliderRange.max <= sliderRange.min) {
+        throw new Error('"sliderRange.max" must be above sliderRange.min');
+    }
+
+    const protocol = raw.protocol ?? 'range';
+    if (!PROTOCOLS.includes(protocol)) {
+        throw new Error(`"protocol" must be one of ${PROTOCOLS.join(', ')}`);
+    }
+
+    if (!Array.isArray(raw.arms)) {
+        throw new Error('"arms" must be a list');
+    }
+    const arms = raw.arms.map(readArm);
+    if (arms.length < 2) {
+        throw new Error('"arms" must define a reference arm and at least one arm to compare with it');
+    }
+    const duplicateId = findDuplicate(arms.map(arm => arm.id));
+    if (duplicateId) {
+        throw new Error(`Arm id "${duplicateId}" is used more than once`);
+    }
+    const duplicatePrefix = findDuplicate(arms.map(arm => arm.csvPrefix));
+    if (duplicatePrefix) {
+        throw new Error(`CSV prefix "${duplicatePrefix}" is used by more than one arm`);
+    }
+
+    if (raw.factorOrderings !== undefined && !Array.isArray(raw.factorOrderings)) {
+        throw new Error('"factorOrderings" must be a list');
+    }
+
+    if (raw.seedQuestions !== undefined && !Array.isArray(raw.seedQuestions)) {
+        throw new Error('"seedQuestions" must be a list');
+    }
+    const seedQuestions = (raw.seedQuestions ?? []).map(readSeedQuestion);
+    const duplicateSeed = findDuplicate(seedQuestions.map(seed => seed.id));
+    if (duplicateSeed) {
+        throw new Error(`Seed question id "${duplicateSeed}" is used more than once`);
+    }
+
+    return {
+        id,
+        title: raw.title.trim(),
+        subtitle: readStringList(raw.subtitle, 'subtitle'),
+        instructions: readStringList(raw.instructions, 'instructions'),
+        assumptions: readStringList(raw.assumptions, 'assumptions'),
+        defaultCsv: raw.defaultCsv.trim(),
+        sliderRange,
+        protocol,
+        chips: readChips(raw.chips),
+        arms,
+        factorOrderings: (raw.factorOrderings ?? []).map(readFactorOrdering),
+        seedQuestions,
+    };
+}
+
+// Every project folder is bundled, so one build serves them all
+const PROJECT_FILES = import.meta.glob('../projects/*/project.yaml', { query: '?raw', import: 'default', eager: true }) as Record<string, string>;
+const PROJECT_DATA_FILES = import.meta.glob('../projects/*/*.csv', { query: '?raw', import: 'default', eager: true }) as Record<string, string>;
+
+const projectFolder = (path: string) => path.split('/').slice(-2, -1)[0];
+
+interface LoadedProject {
+    config: ProjectConfig;
+    defaultCsvText: string;
+}
+
+const loadProjects = (): LoadedProject[] => Object.entries(PROJECT_FILES).flatMap(([path, yamlText]) => {
+    const id = projectFolder(path);
+    try {
+        const config = parseProjectConfig(id, yamlText);
+        const defaultCsvText = PROJECT_DATA_FILES[`../projects/${id}/${config.defaultCsv}`];
+        if (defaultCsvText === undefined) {
+            throw new Error(`Default CSV "${config.defaultCsv}" was not found in projects/${id}`);
+        }
+        return [{ config, defaultCsvText }];
+    } catch (error) {
+        console.error(`Skipping project "${id}":`, error);
+        return [];
+    }
+});
+
+const PROJECTS = loadProjects();
+
+export const AVAILABLE_PROJECTS: { id: string; title: string }[] = PROJECTS.map(p => ({ id: p.config.id, title: p.config.title }));
+
+const resolveActiveProject = (): LoadedProject => {
+    const requested = typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('project') : null;
+    const project = PROJECTS.find(p => p.config.id === requested)
+        ?? PROJECTS.find(p => p.config.id === DEFAULT_PROJECT_ID)
+        ?? PROJECTS[0];
+    if (!project) {
+        throw new Error('No valid project configuration was found under projects/');
+    }
+    if (requested && project.config.id !== requested) {
+        console.warn(`Project "${requested}" is not available; opening "${project.config.id}" instead.`);
+    }
+    return project;
+};
+
+const ACTIVE = resolveActiveProject();
+
+// The project chosen by the ?project= URL parameter; switching projects reloads the page
+export const ACTIVE_PROJECT: ProjectConfig = ACTIVE.config;
+export const ACTIVE_PROJECT_CSV: string = ACTIVE.defaultCsvText;
+
+// Arms in display order. The first is the reference every other arm is compared against
+// (the benefit of an arm is the reference loss minus its loss).
+export const ARMS: ArmConfig[] = ACTIVE_PROJECT.arms;
+export const ARM_IDS: ArmId[] = ARMS.map(arm => arm.id);
+export const REFERENCE_ARM: ArmConfig = ARMS[0];
+export const COMPARISON_ARMS: ArmConfig[] = ARMS.slice(1);
+
+export function getArmConfig(armId: ArmId): ArmConfig {
+    const arm = ARMS.find(a => a.id === armId);
+    if (!arm) {
+        throw new Error(`Unknown arm "${armId}"`);
+    }
+    return arm;
+}
+
+/**
+ * URL that opens the given project
+ */
+export function getProjectUrl(projectId: string): string {
+    const url = new URL(window.location.href);
+    url.searchParams.set('project', projectId);
+    return url.toString();
+}
@@ -0,0 +1,250 @@
+import { ChipsAnswer, Distribution, ElicitationProtocol, ProtocolAnswer, QuantileAnswer } from '../types';
+import { DEFAULT_SLIDER_RANGE, MIN_SLIDER_CONFIDENCE } from './distributionUtils';
+import { fitDistribution } from './fittingUtils';
+import { ACTIVE_PROJECT, REFERENCE_ARM } from './projectUtils';
+
+export const PROTOCOL_LABELS: Record<ElicitationProtocol, string> = {
+    range: 'Min, most likely and max',
+    quantile: '5th, 50th and 95th percentiles',
+    chips: 'Chips in bins',
+};
+
+export const QUANTILE_FIELDS = ['p05', 'p50', 'p95'] as const;
+
+export const QUANTILE_LABELS: Record<typeof QUANTILE_FIELDS[number], string> = {
+    p05: '5th',
+    p50: '50th',
+    p95: '95th',
+};
+
+// Fitted values are stored to the 0.1 steps of exact entry
+const roundToTenth = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Edges of the project's chips-and-bins layout, in equal steps across the slider range
+ */
+export function getChipBinEdges(): number[] {
+    const { bins } = ACTIVE_PROJECT.chips;
+    const step = (DEFAULT_SLIDER_RANGE.max - DEFAULT_SLIDER_RANGE.min) / bins;
+    return Array.from({ length: bins + 1 }, (_, i) => roundToTenth(DEFAULT_SLIDER_RANGE.min + i * step));
+}
+
+export function getEmptyChipsAnswer(): ChipsAnswer {
+    const edges = getChipBinEdges();
+    return { protocol: 'chips', edges, chips: Array(edges.length - 1).fill(0) };
+}
+
+/**
+ * Percentiles of a chips answer, reading each bin's chips as spread evenly across it
+ */
+export function chipsToQuantiles(answer: ChipsAnswer): QuantileAnswer {
+    const total = answer.chips.reduce((sum, count) => sum + count, 0);
+    if (total <= 0) {
+        throw new Error('No chips have been placed');
+    }
+    const quantileAt = (p: number): number => {
+        const target = p * total;
+        let cumulative = 0;
+        for (let i = 0; i < answer.chips.length; i++) {
+            const count = answer.chips[i];
+            if (count > 0 && cumulative + count >= target) {
+                return answer.edges[i] + (answer.edges[i + 1] - answer.edges[i]) * (target - cumulative) / count;
+            }
+            cumulative += count;
+        }
+        return answer.edges[answer.edges.length - 1];
+    };
+    return { protocol: 'quantile', p05: quantileAt(0.05), p50: quantileAt(0.5), p95: quantileAt(0.95) };
+}
+
+/**
+ * The 5th, 50th and 95th percentiles an answer states
+ */
+export function getAnswerQuantiles(answer: ProtocolAnswer): QuantileAnswer {
+    return answer.protocol === 'chips' ? chipsToQuantiles(answer) : answer;
+}
+
+// Largest gap, in percentage points, between a stated and a fitted percentile that is not flagged to the expert
+export const QUANTILE_MISFIT_TOLERANCE = 1;
+
+// Fits already made, keyed by the stated percentiles; answers are validated on every render
+const quantileFits = new Map<string, Distribution>();
+const MAX_CACHED_FITS = 500;
+
+// Stored values for a search point [min, mode, max, confidence], kept within the sliders' ranges and in order
+const pointToDistribution = ([a, b, c, confidence]: number[]): Distribution => {
+    const [min, mode, max] = [a, b, c]
+        .map(value => Math.min(DEFAULT_SLIDER_RANGE.max, Math.max(DEFAULT_SLIDER_RANGE.min, value)))
+        .sort((x, y) => x - y);
+    return { min, mode, max, confidence: Math.min(100, Math.max(MIN_SLIDER_CONFIDENCE, confidence)) };
+};
+
+const squaredMisfit = (quantiles: QuantileAnswer, dist: Distribution): number => {
+    const fitted = fitDistribution(dist).quantiles;
+    return QUANTILE_FIELDS.reduce((sum, field) => sum + (fitted[field] - quantiles[field]) ** 2, 0);
+};
+
+// Nelder-Mead simplex search for a local minimum of f, starting from a simplex built around start
+function minimise(f: (point: number[]) => number, start: number[], steps: number[], iterations = 400): number[] {
+    let simplex = [start, ...start.map((_, i) => start.map((value, j) => (i === j ? value + steps[i] : value)))]
+        .map(point => ({ point, value: f(point) }));
+    const toward = (from: number[], to: number[], t: number) => from.map((value, i) => value + t * (to[i] - value));
+
+    for (let i = 0; i < iterations; i++) {
+        simplex.sort((a, b) => a.value - b.value);
+        const best = simplex[0];
+        const worst = simplex[simplex.length - 1];
+        if (worst.value - best.value < 1e-8) break;
+
+        const rest = simplex.slice(0, -1);
+        const centroid = start.map((_, j) => rest.reduce((sum, vertex) => sum + vertex.point[j], 0) / rest.length);
+        const reflected = toward(centroid, worst.point, -1);
+        const reflectedValue = f(reflected);
+        if (reflectedValue < best.value) {
+            const expanded = toward(centroid, worst.point, -2);
+            const expandedValue = f(expanded);
+            simplex[simplex.length - 1] = expandedValue < reflectedValue
+                ? { point: expanded, value: expandedValue }
+                : { point: reflected, value: reflectedValue };
+        } else if (reflectedValue < simplex[simplex.length - 2].value) {
+            simplex[simplex.length - 1] = { point: reflected, value: reflectedValue };
+        } else {
+            const contracted = toward(centroid, worst.point, 0.5);
+            const contractedValue = f(contracted);
+            if (contractedValue < worst.value) {
+                simplex[simplex.length - 1] = { point: contracted, value: contractedValue };
+            } else {
+                // Shrink every vertex toward the best one
+                simplex = simplex.map(vertex => {
+                    const point = toward(best.point, vertex.point, 0.5);
+                    return { point, value: f(point) };
+                });
+            }
+        }
+    }
+    return simplex.reduce((a, b) => (b.value < a.value ? b : a)).point;
+}
+
+/**
+ * Fit the stored min, mode, max and confidence to stated percentiles by least squares on all three.
+ * Not every answer has an exact Beta-PERT match within the slider range; getQuantileMisfit reports what is left.
+ */
+export function fitQuantiles(quantiles: QuantileAnswer): Distribution {
+    const key = QUANTILE_FIELDS.map(field => quantiles[field]).join(',');
+    const cached = quantileFits.get(key);
+    if (cached) {
+        return cached;
+    }
+
+    const spread = quantiles.p95 - quantiles.p05;
+    let fit: Distribution;
+    if (!(spread > 0)) {
+        const value = roundToTenth(quantiles.p50);
+        fit = { min: value, mode: value, max: value, confidence: 100 };
+    } else {
+        // Start from the stated 90% interval as min and max
+        const start = [quantiles.p05, quantiles.p50, quantiles.p95, 90];
+        const best = pointToDistribution(minimise(
+            point => squaredMisfit(quantiles, pointToDistribution(point)),
+            start,
+            [spread / 4, spread / 4, spread / 4, -10]
+        ));
+        fit = { min: roundToTenth(best.min), mode: roundToTenth(best.mode), max: roundToTenth(best.max), confidence: Math.round(best.confidence) };
+    }
+
+    if (quantileFits.size >= MAX_CACHED_FITS) {
+        quantileFits.clear();
+    }
+    quantileFits.set(key, fit);
+    return fit;
+}
+
+/**
+ * Percentiles an answer states and those of the values fitted to it, with the largest gap in percentage points
+ */
+export function getQuantileMisfit(answer: ProtocolAnswer, values: Distribution): { stated: QuantileAnswer; fitted: QuantileAnswer; largest: number } {
+    const stated = getAnswerQuantiles(answer);
+    const { quantiles } = fitDistribution(values);
+    const fitted: QuantileAnswer = { protocol: 'quantile', p05: quantiles.p05, p50: quantiles.p50, p95: quantiles.p95 };
+    return { stated, fitted, largest: Math.max(...QUANTILE_FIELDS.map(field => Math.abs(fitted[field] - stated[field]))) };
+}
+
+export function answerToDistribution(answer: ProtocolAnswer): Distribution {
+    return fitQuantiles(getAnswerQuantiles(answer));
+}
+
+/**
+ * Explain why an answer cannot be used, or return null when it can. Compared arms pass the
+ * reference arm's values, which the fitted min, mode and max may not exceed.
+ */
+export function validateProtocolAnswer(answer: ProtocolAnswer, reference: Distribution | null): string | null {
+    if (answer.protocol === 'quantile') {
+        if (QUANTILE_FIELDS.some(field => !Number.isFinite(answer[field]))) {
+            return 'Enter a number';
+        }
+        if (QUANTILE_FIELDS.some(field => answer[field] < DEFAULT_SLIDER_RANGE.min || answer[field] > DEFAULT_SLIDER_RANGE.max)) {
+            return `Percentiles must be between ${DEFAULT_SLIDER_RANGE.min}% and ${DEFAULT_SLIDER_RANGE.max}%`;
+        }
+        if (!(answer.p05 < answer.p50 && answer.p50 < answer.p95)) {
+            return 'Percentiles must rise from the 5th to the 50th to the 95th';
+        }
+    } else {
+        const placed = answer.chips.reduce((sum, count) => sum + count, 0);
+        if (answer.chips.some(count => !Number.isInteger(count) || count < 0)) {
+            return 'Each bin holds a whole number of chips';
+        }
+        if (placed === 0) {
+            return 'Place at least one chip';
+        }
+        if (placed > ACTIVE_PROJECT.chips.total) {
+            return `Only ${ACTIVE_PROJECT.chips.total} chips are available`;
+        }
+    }
+
+    if (reference) {
+        const fitted = answerToDistribution(answer);
+        const above = (['min', 'mode', 'max'] as const).find(field => fitted[field] > reference[field]);
+        if (above) {
+            const name = above === 'mode' ? 'most likely value' : above;
+            return `Implies a ${name} of ${fitted[above]}%, above the ${REFERENCE_ARM.label.toLowerCase()} ${name} (${reference[above]}%)`;
+        }
+    }
+    return null;
+}
+
+/**
+ * One-line text form of an answer, used in the CSV export and the audit trail
+ */
+export function formatProtocolAnswer(answer: ProtocolAnswer): string {
+    if (answer.protocol === 'quantile') {
+        return `quantile ${QUANTILE_FIELDS.map(field => `${field}=${answer[field]}`).join(' ')}`;
+    }
+    return `chips ${answer.chips.map((count, i) => `${answer.edges[i]}-${answer.edges[i + 1]}=${count}`).join(' ')}`;
+}
+
+/**
+ * Read an answer back from its text form; null when the text is not one
+ */
+export function parseProtocolAnswer(text: string): ProtocolAnswer | null {
+    const [protocol, ...parts] = text.trim().split(/\s+/);
+    if (protocol === 'quantile') {
+        const values = Object.fromEntries(parts.map(part => part.split('=')).map(([key, value]) => [key, Number(value)]));
+        if (parts.length !== QUANTILE_FIELDS.length || QUANTILE_FIELDS.some(field => !Number.isFinite(values[field]))) {
+            return null;
+        }
+        return { protocol, p05: values.p05, p50: values.p50, p95: values.p95 };
+    }
+    if (protocol === 'chips' && parts.length > 0) {
+        const bins = parts.map(part => part.match(/^(-?[\d.]+)-(-?[\d.]+)=(\d+)$/));
+        if (bins.some(match => !match)) {
+            return null;
+        }
+        const edges = [Number(bins[0]![1]), ...bins.map(match => Number(match![2]))];
+        // Adjacent bins share an edge
+        if (bins.some((match, i) => i > 0 && Number(match![1]) !== edges[i]) || edges.some((edge, i) => i > 0 && edge <= edges[i - 1])) {
+            return null;
+        }
+        return { protocol, edges, chips: bins.map(match => Number(match![3])) };
+    }
+    return null;
+}
@@ -0,0 +1,178 @@
+import { randomLcg } from 'd3';
+import { version as APP_VERSION } from '../package.json';
+import { ArmId, Scenario, UserElicitationData, UserScenarioDistribution } from '../types';
+import { BenefitCoupling, sampleFitted, seedFromString } from './benefitUtils';
+import { formatCSVNumber, getScenarioDataColumns, serializeCSV } from './csvUtils';
+import { hasScenarioUserEdits } from './distributionUtils';
+import { fitScenarioDistribution, PERT_SHAPE } from './fittingUtils';
+import { ACTIVE_PROJECT, ARMS } from './projectUtils';
+
+export type SampleExportFormat = 'csv' | 'json';
+
+export interface SampleExportOptions {
+    sampleSize: number; // Draws per scenario and arm
+    seed: number;
+    coupling: BenefitCoupling;
+}
+
+// Where the samples came from, so a downstream model run can be traced back and repeated
+export interface SampleProvenance {
+    format: typeof SAMPLE_EXPORT_FORMAT;
+    generatedAt: string; // ISO
+    appVersion: string;
+    project: string;
+    expert: string;
+    outcome: string;
+    fittingMethod: string;
+    seed: number;
+    sampleSize: number;
+    coupling: BenefitCoupling;
+    scenarios: number;
+}
+
+export interface ScenarioSample {
+    scenario_id: string;
+    scenario_group: string;
+    factors: Record<string, string>;
+    arm: ArmId;
+    draw: number; // 1-based; comonotonic draws with the same number are the same paddock
+    value: number;
+}
+
+export const SAMPLE_EXPORT_FORMAT = 'expert-elicitation-samples';
+export const DEFAULT_SAMPLE_SIZE = 1000;
+export const DEFAULT_SAMPLE_SEED = 12345;
+
+// Above this many values the file is too large to build in the browser
+export const MAX_EXPORTED_SAMPLES = 2_000_000;
+
+export const SAMPLE_FITTING_METHOD =
+    `Beta-PERT (shape ${PERT_SHAPE}) on each arm's min, mode and max, widened so [min, max] holds the stated confidence`;
+
+/**
+ * Explain why samples cannot be drawn with these settings, or return null when they can
+ */
+export function validateSampleExport(options: SampleExportOptions, scenarioCount: number): string | null {
+    if (!Number.isInteger(options.sampleSize) || options.sampleSize < 1) {
+        return 'The number of samples must be a whole number of at least 1';
+    }
+    if (!Number.isInteger(options.seed)) {
+        return 'The seed must be a whole number';
+    }
+    if (scenarioCount === 0) {
+        return 'No scenario has been edited yet';
+    }
+    const total = options.sampleSize * scenarioCount * ARMS.length;
+    if (total > MAX_EXPORTED_SAMPLES) {
+        return `That is ${total.toLocaleString()} values; reduce the number of samples to keep the file under ${MAX_EXPORTED_SAMPLES.toLocaleString()}`;
+    }
+    return null;
+}
+
+/**
+ * Scenarios that get samples: those the expert has edited, as in the fitted-parameter export.
+ * A scenario shared between groups, such as a sweep's reference row, is sampled once under its first group.
+ */
+export function getSampledScenarios(scenarios: Scenario[], userElicitationData: UserElicitationData): Scenario[] {
+    const seen = new Set<string>();
+    return scenarios.filter(scenario => {
+        const userScenario = userElicitationData[scenario.id];
+        if (seen.has(scenario.id) || !userScenario || !hasScenarioUserEdits(userScenario)) {
+            return false;
+        }
+        seen.add(scenario.id);
+        return true;
+    });
+}
+
+/**
+ * Draw every arm of one scenario. The generator is seeded from the export seed and the scenario id,
+ * so a scenario's draws do not depend on which other scenarios are exported.
+ */
+export function drawScenarioSamples(
+    scenarioId: string,
+    userScenario: UserScenarioDistribution,
+    options: SampleExportOptions
+): Record<ArmId, number[]> {
+    const fitted = fitScenarioDistribution(userScenario);
+    const random = randomLcg(seedFromString(`${options.seed}|${scenarioId}`));
+    const draws: Record<ArmId, number[]> = Object.fromEntries(
+        ARMS.map(arm => [arm.id, sampleFitted(fitted[arm.id], options.sampleSize, random)])
+    );
+    if (options.coupling === 'independent') {
+        return draws;
+    }
+
+    // Comonotonic pairing sorts every arm; one shared shuffle then puts the pairs in random order,
+    // so any subset of draws, such as the first k, is still a fair sample
+    const order = Array.from({ length: options.sampleSize }, (_, i) => i);
+    for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+    return Object.fromEntries(ARMS.map(arm => {
+        const sorted = draws[arm.id].sort((a, b) => a - b);
+        return [arm.id, order.map(index => sorted[index])];
+    }));
+}
+
+/**
+ * Long-format samples, one entry per scenario, arm and draw; pass the scenarios from getSampledScenarios
+ */
+export function buildScenarioSamples(
+    scenarios: Scenario[],
+    userElicitationData: UserElicitationData,
+    options: SampleExportOptions
+): ScenarioSample[] {
+    const factorColumns = getScenarioDataColumns(scenarios);
+    return scenarios.flatMap(scenario => {
+        const draws = drawScenarioSamples(scenario.id, userElicitationData[scenario.id], options);
+        const factors = Object.fromEntries(factorColumns.map(column => [column, scenario[column] ?? '']));
+        return ARMS.flatMap(arm => draws[arm.id].map((value, index) => ({
+            scenario_id: scenario.id,
+            scenario_group: scenario.scenario_group ?? '',
+            factors,
+            arm: arm.id,
+            draw: index + 1,
+            value,
+        })));
+    });
+}
+
+export function getSampleProvenance(options: SampleExportOptions, expert: string, scenarioCount: number): SampleProvenance {
+    return {
+        format: SAMPLE_EXPORT_FORMAT,
+        generatedAt: new Date().toISOString(),
+        appVersion: APP_VERSION,
+        project: ACTIVE_PROJECT.id,
+        expert,
+        outcome: 'Yield loss (%)',
+        fittingMethod: SAMPLE_FITTING_METHOD,
+        seed: options.seed,
+        sampleSize: options.sampleSize,
+        coupling: options.coupling,
+        scenarios: scenarioCount,
+    };
+}
+
+/**
+ * CSV with the provenance as leading "# key: value" comment lines, which most readers can skip
+ * (pandas comment="#", R comment.char="#")
+ */
+export function generateSamplesCSV(samples: ScenarioSample[], provenance: SampleProvenance): string {
+    const factorColumns = samples.length > 0 ? Object.keys(samples[0].factors) : [];
+    const header = Object.entries(provenance).map(([key, value]) => `# ${key}: ${value}`).join('\r\n');
+    const rows = samples.map(sample => [
+        sample.scenario_id,
+        sample.scenario_group,
+        ...factorColumns.map(column => sample.factors[column]),
+        sample.arm,
+        sample.draw,
+        formatCSVNumber(sample.value),
+    ]);
+    return `${header}\r\n${serializeCSV([['scenario_id', 'scenario_group', ...factorColumns, 'arm', 'draw', 'value'], ...rows])}`;
+}
+
+export function generateSamplesJSON(samples: ScenarioSample[], provenance: SampleProvenance): string {
+    return JSON.stringify({ provenance, samples });
+}
@@ -0,0 +1,277 @@
+import { version as APP_VERSION } from '../package.json';
+import { ArmId, AuditEvent, Distribution, ElicitationProtocol, FlagAcknowledgements, Scenario, SeedAnswers, UserElicitationData } from '../types';
+import { BenefitCoupling } from './benefitUtils';
+import { ExpertSeedScores, scoreExperts, validateSeedAnswer } from './calibrationUtils';
+import {
+    DEFAULT_SLIDER_RANGE,
+    distributionToUserDistribution,
+    getArmDefaults,
+    getUserDistribution,
+    hasScenarioUserEdits,
+    userDistributionToDistribution
+} from './distributionUtils';
+import { EconomicInputs } from './economicsUtils';
+import { ACTIVE_PROJECT, ARMS, DEFAULT_PROJECT_ID } from './projectUtils';
+
+export interface ExpertIdentity {
+    name: string;
+    affiliation: string;
+}
+
+// Everything needed to put the app back where the expert left it
+export interface SessionSnapshot {
+    expert: ExpertIdentity;
+    scenarios: Scenario[];
+    userElicitationData: UserElicitationData;
+    yieldColumn: string | null;
+    selectedGroup: string | null;
+    selectedScenarioId: string | null;
+    flagAcknowledgements: FlagAcknowledgements;
+    economicInputs: EconomicInputs;
+    benefitThreshold: number;
+    benefitCoupling: BenefitCoupling;
+    auditTrail: AuditEvent[];
+    protocol: ElicitationProtocol; // How this expert states distributions
+    seedAnswers: SeedAnswers;
+}
+
+// Defaults fill every field the expert has left untouched, so a session records the ones it was made with
+export interface SessionDefaults {
+    arms: Record<ArmId, Distribution>;
+    sliderRange: { min: number; max: number };
+}
+
+export interface SessionFile {
+    format: typeof SESSION_FORMAT;
+    schemaVersion: number;
+    appVersion: string;
+    project: string; // Id of the project configuration the session belongs to
+    name: string;
+    createdAt: string; // ISO timestamps
+    modifiedAt: string;
+    expert: ExpertIdentity;
+    defaults: SessionDefaults;
+    session: SessionSnapshot;
+    // Scored against this expert's answers alone when saved; not read back, as a panel is rescored together
+    seedScores: ExpertSeedScores | null;
+}
+
+export interface SessionFileMetadata {
+    name: string;
+    createdAt: string;
+    modifiedAt?: string;
+}
+
+export const SESSION_FORMAT = 'expert-elicitation-session';
+export const SESSION_SCHEMA_VERSION = 6;
+
+export const EMPTY_EXPERT: ExpertIdentity = { name: '', affiliation: '' };
+
+export const getCurrentDefaults = (): SessionDefaults => ({
+    arms: Object.fromEntries(ARMS.map(arm => [arm.id, { ...arm.defaults }])),
+    sliderRange: { ...DEFAULT_SLIDER_RANGE },
+});
+
+/**
+ * Wrap a snapshot with the metadata and defaults of the current release
+ */
+export function buildSessionFile(snapshot: SessionSnapshot, metadata: SessionFileMetadata): SessionFile {
+    return {
+        format: SESSION_FORMAT,
+        schemaVersion: SESSION_SCHEMA_VERSION,
+        appVersion: APP_VERSION,
+        project: ACTIVE_PROJECT.id,
+        name: metadata.name,
+        createdAt: metadata.createdAt,
+        modifiedAt: metadata.modifiedAt ?? new Date().toISOString(),
+        expert: snapshot.expert,
+        defaults: getCurrentDefaults(),
+        session: snapshot,
+        seedScores: scoreExperts([snapshot.seedAnswers], ACTIVE_PROJECT.seedQuestions)[0],
+    };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Fields a migration spreads or reads, with an empty object standing in for a missing or malformed one
+const asRecord = (value: unknown): Record<string, unknown> => (isRecord(value) ? value : {});
+
+const asNumber = (value: unknown): number => (typeof value === 'number' ? value : NaN);
+
+const isDistribution = (value: unknown): value is Distribution =>
+    isRecord(value) && (['min', 'mode', 'max', 'confidence'] as const).every(field => Number.isFinite(value[field]));
+
+// Each migration takes a session at version n and returns it at version n + 1
+const MIGRATIONS: Record<number, (session: Record<string, unknown>) => Record<string, unknown>> = {
+    // Version 0 is the bare snapshot autosaved before sessions carried metadata
+    0: snapshot => {
+        const now = new Date().toISOString();
+        const expert = { ...EMPTY_EXPERT, ...asRecord(snapshot.expert) };
+        return {
+            format: SESSION_FORMAT,
+            schemaVersion: 1,
+            appVersion: 'unknown',
+            name: 'Imported session',
+            createdAt: now,
+            modifiedAt: now,
+            expert,
+            defaults: getCurrentDefaults(), // Not recorded before version 1; these were the only defaults shipped
+            session: { ...snapshot, expert },
+        };
+    },
+    // Version 2 adds the edit audit trail; earlier edits were not recorded
+    1: file => ({
+        ...file,
+        schemaVersion: 2,
+        session: { ...asRecord(file.session), auditTrail: [] },
+    }),
+    // Version 3 records the project; there was only one before
+    2: file => ({
+        ...file,
+        schemaVersion: 3,
+        project: DEFAULT_PROJECT_ID,
+    }),
+    // Version 4 keys the defaults by arm id now that projects choose their own arms
+    3: file => {
+        const { baseline, treatment, sliderRange, ...rest } = asRecord(file.defaults);
+        return {
+            ...file,
+            schemaVersion: 4,
+            defaults: isRecord(rest.arms) ? { ...rest, sliderRange } : { arms: { baseline, treatment }, sliderRange },
+        };
+    },
+    // Version 5 records the elicitation protocol; every earlier session used min, most likely and max
+    4: file => ({
+        ...file,
+        schemaVersion: 5,
+        session: { ...asRecord(file.session), protocol: 'range' },
+    }),
+    // Version 6 adds seed question answers; none were asked before
+    5: file => ({
+        ...file,
+        schemaVersion: 6,
+        session: { ...asRecord(file.session), seedAnswers: {} },
+        seedScores: null,
+    }),
+};
+
+/**
+ * Write a session's recorded defaults into the untouched fields of every scenario the expert worked on,
+ * so those fields keep the values the expert saw rather than taking this release's defaults
+ */
+export function applyRecordedDefaults(snapshot: SessionSnapshot, defaults: SessionDefaults): SessionSnapshot {
+    const userElicitationData = Object.fromEntries(Object.entries(snapshot.userElicitationData).map(([scenarioId, userScenario]) => {
+        if (!hasScenarioUserEdits(userScenario)) {
+            return [scenarioId, userScenario];
+        }
+        const filled = Object.fromEntries(ARMS.flatMap(arm => {
+            const recorded = defaults.arms[arm.id];
+            if (!recorded) {
+                return [];
+            }
+            const userDist = getUserDistribution(userScenario, arm.id);
+            const values = userDistributionToDistribution(userDist, recorded);
+            return [[arm.id, { ...userDist, ...distributionToUserDistribution(values, getArmDefaults(arm.id)) }]];
+        }));
+        return [scenarioId, { ...userScenario, ...filled }];
+    }));
+    return { ...snapshot, userElicitationData };
+}
+
+/**
+ * Bring a parsed session of any supported version up to the current schema. Untouched fields of the
+ * scenarios the expert worked on are filled from the defaults the session recorded.
+ */
+export function migrateSessionFile(raw: unknown): SessionFile {
+    if (!isRecord(raw)) {
+        throw new Error('Session file must contain a JSON object');
+    }
+
+    let session: Record<string, unknown> = raw;
+    let version = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+    if (version > 0 && raw.format !== SESSION_FORMAT) {
+        throw new Error('This is not an elicitation session file');
+    }
+    if (version > SESSION_SCHEMA_VERSION) {
+        throw new Error(`Session schema version ${version} was written by a newer release; this one reads up to version ${SESSION_SCHEMA_VERSION}`);
+    }
+    while (version < SESSION_SCHEMA_VERSION) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) {
+            throw new Error(`No migration from session schema version ${version}`);
+        }
+        session = migrate(session);
+        if (typeof session.schemaVersion !== 'number') {
+            throw new Error(`Session schema version ${version} did not migrate to a numbered version`);
+        }
+        version = session.schemaVersion;
+    }
+
+    const snapshot = session.session;
+    if (!isRecord(snapshot) || !Array.isArray(snapshot.scenarios) || !isRecord(snapshot.userElicitationData)) {
+        throw new Error('Session file is missing its scenarios or elicitation data');
+    }
+    const { seedAnswers } = snapshot;
+    if (!isRecord(seedAnswers)) {
+        throw new Error('Session file is missing its seed question answers');
+    }
+    Object.entries(seedAnswers).forEach(([questionId, answer]) => {
+        const error = isRecord(answer) && answer.protocol === 'quantile'
+            ? validateSeedAnswer({ protocol: 'quantile', p05: asNumber(answer.p05), p50: asNumber(answer.p50), p95: asNumber(answer.p95) })
+            : 'Not a set of percentiles';
+        if (error) {
+            throw new Error(`Seed question ${questionId}: ${error}`);
+        }
+    });
+
+    const defaults = asRecord(session.defaults);
+    const armDefaults = Object.fromEntries(Object.entries(asRecord(defaults.arms))
+        .filter((entry): entry is [ArmId, Distribution] => isDistribution(entry[1])));
+    const file = session as unknown as SessionFile;
+    return { ...file, session: applyRecordedDefaults(file.session, { ...file.defaults, arms: armDefaults }) };
+}
+
+export function parseSessionFile(jsonText: string): SessionFile {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(jsonText);
+    } catch {
+        throw new Error('Session file is not valid JSON');
+    }
+    return migrateSessionFile(raw);
+}
+
+export function serializeSessionFile(file: SessionFile): string {
+    return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Describe the defaults that differ between a session and the current release
+ */
+export function describeDefaultsMismatch(defaults: SessionDefaults): string[] {
+    const current = getCurrentDefaults();
+    const differences: string[] = [];
+    const fileArms = defaults.arms ?? {};
+    Array.from(new Set([...Object.keys(current.arms), ...Object.keys(fileArms)])).forEach(armId => {
+        if (!current.arms[armId]) {
+            differences.push(`${armId}: in the file, not in this project`);
+            return;
+        }
+        if (!fileArms[armId]) {
+            differences.push(`${armId}: not in the file`);
+            return;
+        }
+        (Object.keys(current.arms[armId]) as (keyof Distribution)[]).forEach(field => {
+            if (fileArms[armId][field] !== current.arms[armId][field]) {
+                differences.push(`${armId} ${field}: ${fileArms[armId][field]} in the file, ${current.arms[armId][field]} now`);
+            }
+        });
+    });
+    (['min', 'max'] as const).forEach(bound => {
+        if (defaults.sliderRange?.[bound] !== current.sliderRange[bound]) {
+            differences.push(`slider ${bound}: ${defaults.sliderRange?.[bound]} in the file, ${current.sliderRange[bound]} now`);
+        }
+    });
+    return differences;
+}
@@ -0,0 +1,90 @@
+import { FactorOrdering, Scenario, UserElicitationData, UserScenarioDistribution } from '../types';
+import { getScenarioDataColumns } from './csvUtils';
+import { hasScenarioUserEdits, scenarioToUserScenario, userScenarioToScenario } from './distributionUtils';
+import { getLevelRank } from './monotonicityUtils';
+import { ARMS } from './projectUtils';
+
+export interface SuggestionSource {
+    scenario: Scenario;
+    distance: number; // Sum over factor columns, each contributing 0 (same level) to 1 (furthest apart)
+    weight: number; // Share of the suggestion, normalised over the sources
+    differences: string[]; // Factor columns whose level differs from the target scenario
+}
+
+export interface StartingValueSuggestion {
+    scenarioId: string;
+    values: UserScenarioDistribution; // In stored form: values that match the defaults are null
+    sources: SuggestionSource[];
+}
+
+// How many of the nearest answered scenarios a suggestion draws on
+export const SUGGESTION_NEIGHBOURS = 3;
+
+const levelOf = (scenario: Scenario, column: string): string => String(scenario[column] ?? '').trim();
+
+// Distance between two levels of one column, scaled to 0–1
+const columnDistance = (a: string, b: string, column: string, scenarios: Scenario[], orderings: FactorOrdering[]): number => {
+    if (a === b) return 0;
+    if (a === '' || b === '') return 1;
+
+    const ordering = orderings.find(o => o.column === column);
+    const positionOf = (level: string): number | null => {
+        if (ordering) return getLevelRank(ordering, level);
+        const numeric = Number(level);
+        return Number.isFinite(numeric) ? numeric : null;
+    };
+    const positionA = positionOf(a);
+    const positionB = positionOf(b);
+    if (positionA === null || positionB === null) return 1;
+
+    // Ordered and numeric levels are compared relative to the column's full spread
+    const positions = scenarios.map(s => positionOf(levelOf(s, column))).filter((p): p is number => p !== null);
+    const spread = Math.max(...positions, positionA, positionB) - Math.min(...positions, positionA, positionB);
+    return spread > 0 ? Math.abs(positionA - positionB) / spread : 1;
+};
+
+/**
+ * Propose starting values for a scenario from the expert's answers to the most similar scenarios,
+ * weighting each by inverse factor distance. Returns null when no other scenario has been answered.
+ */
+export function suggestStartingValues(
+    target: Scenario,
+    scenarios: Scenario[],
+    userData: UserElicitationData,
+    orderings: FactorOrdering[] = [],
+    neighbours = SUGGESTION_NEIGHBOURS
+): StartingValueSuggestion | null {
+    const columns = getScenarioDataColumns(scenarios);
+    const answered = Array.from(new Map(scenarios.map(s => [s.id, s])).values())
+        .filter(s => s.id !== target.id && userData[s.id] && hasScenarioUserEdits(userData[s.id]));
+    if (answered.length === 0) {
+        return null;
+    }
+
+    const nearest = answered
+        .map(scenario => {
+            const differences = columns.filter(column => levelOf(scenario, column) !== levelOf(target, column));
+            const distance = differences.reduce(
+                (sum, column) => sum + columnDistance(levelOf(scenario, column), levelOf(target, column), column, scenarios, orderings),
+                0
+            );
+            return { scenario, distance, differences };
+        })
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, neighbours);
+
+    // Closer scenarios count for more; the offset keeps an identical scenario from taking all the weight
+    const rawWeights = nearest.map(n => 1 / (n.distance + 0.5));
+    const totalWeight = rawWeights.reduce((sum, w) => sum + w, 0);
+    const sources = nearest.map((n, i) => ({ ...n, weight: rawWeights[i] / totalWeight }));
+
+    // Averaging keeps min ≤ mode ≤ max, and keeps every compared arm at or below the reference arm
+    const sourceValues = sources.map(source => userScenarioToScenario(userData[source.scenario.id]));
+    const averaged = Object.fromEntries(ARMS.map(arm => {
+        const average = (field: 'min' | 'mode' | 'max' | 'confidence') =>
+            Math.round(sources.reduce((sum, source, i) => sum + source.weight * sourceValues[i][arm.id][field], 0));
+        return [arm.id, { min: average('min'), mode: average('mode'), max: average('max'), confidence: average('confidence') }];
+    }));
+
+    return { scenarioId: target.id, values: scenarioToUserScenario(averaged), sources };
+}
@@ -0,0 +1,303 @@
+import { ArmId, FactorOrdering, FittedDistribution, FittedScenarioDistribution, Scenario, UserElicitationData } from '../types';
+import { formatCSVNumber, getScenarioDataColumns, serializeCSV } from './csvUtils';
+import { generateDesign, inferDesignFactors } from './designUtils';
+import { hasScenarioUserEdits } from './distributionUtils';
+import { buildFittedDistribution, fitScenarioDistribution, PERT_SHAPE, pertParams } from './fittingUtils';
+import { getLevelRank } from './monotonicityUtils';
+import { ARMS } from './projectUtils';
+
+// How a factor column enters the regression: numbers and declared orderings as one standardised
+// trend term, anything else as one indicator per level against the most common level
+export type PredictorEncoding = 'numeric' | 'ordinal' | 'categorical';
+
+export interface SurrogatePredictor {
+    column: string;
+    encoding: PredictorEncoding;
+    levels: string[]; // Levels seen in the training scenarios; for categorical columns the first is the baseline
+    center: number; // Mean and spread used to standardise numeric and ordinal values
+    scale: number;
+}
+
+// Each arm's fitted support and mode are modelled, which fixes the Beta-PERT shape
+const RESPONSES = ['lower', 'mode', 'upper'] as const;
+type SurrogateResponse = typeof RESPONSES[number];
+
+export interface SurrogateModel {
+    predictors: SurrogatePredictor[];
+    // Regression coefficients (intercept first) on the logit scale, per arm and response
+    coefficients: Record<ArmId, Record<SurrogateResponse, number[]>>;
+    trainingIds: string[];
+    trainingLevels: Record<string, string[]>; // Levels of every factor column among the training scenarios
+}
+
+export interface HeldOutPrediction {
+    scenario: Scenario;
+    elicited: FittedScenarioDistribution;
+    predicted: FittedScenarioDistribution; // From a model fitted without this scenario
+}
+
+export interface HeldOutSummary {
+    rmseP50: number; // Root mean square error of the median, in percentage points
+    rmseP05: number;
+    rmseP95: number;
+    coverage: number; // Share of elicited medians inside the predicted 90% interval
+}
+
+export interface PredictionGridRow {
+    scenario: Scenario;
+    elicited: boolean; // The combination matches a scenario the expert has worked on
+    predicted: FittedScenarioDistribution;
+    outsideTraining: string[]; // Columns whose level here never appeared in the training scenarios
+}
+
+// Fewest worked scenarios the model is fitted from
+export const MIN_SURROGATE_SCENARIOS = 3;
+
+// Ridge penalty on the standardised terms; keeps the fit defined when terms outnumber scenarios
+const RIDGE_PENALTY = 0.1;
+
+// Values are nudged inside (0, 100) before the logit so that 0% and 100% supports stay finite
+const LOGIT_MARGIN = 0.005;
+
+const toLogit = (value: number): number => {
+    const p = LOGIT_MARGIN + (1 - 2 * LOGIT_MARGIN) * value / 100;
+    return Math.log(p / (1 - p));
+};
+
+const fromLogit = (z: number): number => {
+    const p = 1 / (1 + Math.exp(-z));
+    // Rounded so that a back-transformed bound of 0% is exactly zero
+    const value = Math.round(1e9 * 100 * (p - LOGIT_MARGIN) / (1 - 2 * LOGIT_MARGIN)) / 1e9;
+    return Math.min(100, Math.max(0, value));
+};
+
+const levelOf = (scenario: Scenario, column: string): string => String(scenario[column] ?? '').trim();
+
+// Mode recovered from the Beta-PERT shape
+const fittedMode = (fitted: FittedDistribution): number =>
+    fitted.lower + (fitted.alpha - 1) * (fitted.upper - fitted.lower) / PERT_SHAPE;
+
+const describePredictor = (scenarios: Scenario[], column: string, orderings: FactorOrdering[]): SurrogatePredictor | null => {
+    const values = scenarios.map(scenario => levelOf(scenario, column)).filter(value => value !== '');
+    const counts = new Map<string, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+    // A column that never varies carries no information
+    if (counts.size < 2) {
+        return null;
+    }
+
+    const ordering = orderings.find(o => o.column === column);
+    const ranks = ordering?.levels?.length ? values.map(value => getLevelRank(ordering, value)) : null;
+    const numbers = values.map(Number);
+    let encoding: PredictorEncoding = 'categorical';
+    let positions: number[] = [];
+    if (ranks && ranks.every(rank => rank !== null)) {
+        encoding = 'ordinal';
+        positions = ranks as number[];
+    } else if (numbers.every(Number.isFinite)) {
+        encoding = 'numeric';
+        positions = numbers;
+    }
+
+    const levels = Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)!);
+    if (encoding === 'categorical') {
+        return { column, encoding, levels, center: 0, scale: 1 };
+    }
+    const center = positions.reduce((sum, value) => sum + value, 0) / positions.length;
+    const scale = Math.sqrt(positions.reduce((sum, value) => sum + (value - center) ** 2, 0) / positions.length);
+    return { column, encoding, levels, center, scale };
+};
+
+// Model terms for one scenario, starting with the intercept
+const termValues = (predictors: SurrogatePredictor[], scenario: Scenario, orderings: FactorOrdering[]): number[] => {
+    const values = [1];
+    predictors.forEach(predictor => {
+        const level = levelOf(scenario, predictor.column);
+        if (predictor.encoding === 'categorical') {
+            predictor.levels.slice(1).forEach(other => values.push(level === other ? 1 : 0));
+            return;
+        }
+        const ordering = orderings.find(o => o.column === predictor.column);
+        const position = predictor.encoding === 'ordinal' && ordering ? getLevelRank(ordering, level) : Number(level);
+        // A blank or unrecognised value sits at the training average
+        values.push(position === null || !Number.isFinite(position) ? 0 : (position - predictor.center) / predictor.scale);
+    });
+    return values;
+};
+
+/**
+ * Solve a square linear system by Gaussian elimination with partial pivoting
+ */
+export function solveLinearSystem(matrix: number[][], vector: number[]): number[] {
+    const n = vector.length;
+    const a = matrix.map((row, i) => [...row, vector[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+        }
+        if (Math.abs(a[pivot][col]) < 1e-12) {
+            throw new Error('The regression is singular');
+        }
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+        for (let row = col + 1; row < n; row++) {
+            const factor = a[row][col] / a[col][col];
+            for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+        }
+    }
+    const solution = Array(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = a[row][n];
+        for (let k = row + 1; k < n; k++) sum -= a[row][k] * solution[k];
+        solution[row] = sum / a[row][row];
+    }
+    return solution;
+}
+
+// Ridge regression with an unpenalised intercept
+const fitRidge = (rows: number[][], targets: number[]): number[] => {
+    const p = rows[0].length;
+    const normal = Array.from({ length: p }, (_, i) => Array.from({ length: p }, (_, j) => (i === j && i > 0 ? RIDGE_PENALTY : 0)));
+    const rhs = Array(p).fill(0);
+    rows.forEach((row, r) => {
+        for (let i = 0; i < p; i++) {
+            rhs[i] += row[i] * targets[r];
+            for (let j = 0; j < p; j++) normal[i][j] += row[i] * row[j];
+        }
+    });
+    return solveLinearSystem(normal, rhs);
+};
+
+const dot = (a: number[], b: number[]): number => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+// Unique scenarios the expert has worked on, with their fitted distributions
+const getTrainingSet = (scenarios: Scenario[], userData: UserElicitationData): { scenario: Scenario; fitted: FittedScenarioDistribution }[] => {
+    const unique = Array.from(new Map(scenarios.map(s => [s.id, s])).values());
+    return unique
+        .filter(scenario => userData[scenario.id] && hasScenarioUserEdits(userData[scenario.id]))
+        .map(scenario => ({ scenario, fitted: fitScenarioDistribution(userData[scenario.id]) }));
+};
+
+const fitCoefficients = (rows: number[][], fits: FittedScenarioDistribution[]): SurrogateModel['coefficients'] =>
+    Object.fromEntries(ARMS.map(arm => {
+        const targets: Record<SurrogateResponse, number[]> = {
+            lower: fits.map(fit => toLogit(fit[arm.id].lower)),
+            mode: fits.map(fit => toLogit(fittedMode(fit[arm.id]))),
+            upper: fits.map(fit => toLogit(fit[arm.id].upper)),
+        };
+        return [arm.id, Object.fromEntries(RESPONSES.map(response => [response, fitRidge(rows, targets[response])])) as Record<SurrogateResponse, number[]>];
+    }));
+
+const predictFromTerms = (coefficients: SurrogateModel['coefficients'], terms: number[]): FittedScenarioDistribution =>
+    Object.fromEntries(ARMS.map(arm => {
+        const [lower, upper] = [fromLogit(dot(coefficients[arm.id].lower, terms)), fromLogit(dot(coefficients[arm.id].upper, terms))]
+            .sort((a, b) => a - b);
+        const mode = Math.min(upper, Math.max(lower, fromLogit(dot(coefficients[arm.id].mode, terms))));
+        return [arm.id, buildFittedDistribution(pertParams(lower, mode, upper), lower, upper)];
+    }));
+
+/**
+ * Regress each arm's fitted lower bound, mode and upper bound (on the logit scale) on the factor columns
+ * of the scenarios the expert has worked on
+ */
+export function fitSurrogateModel(scenarios: Scenario[], userData: UserElicitationData, orderings: FactorOrdering[] = []): SurrogateModel {
+    const training = getTrainingSet(scenarios, userData);
+    if (training.length < MIN_SURROGATE_SCENARIOS) {
+        throw new Error(`Work on at least ${MIN_SURROGATE_SCENARIOS} scenarios to fit the model (${training.length} so far)`);
+    }
+    const trainingScenarios = training.map(t => t.scenario);
+    const columns = getScenarioDataColumns(trainingScenarios);
+    const predictors = columns
+        .map(column => describePredictor(trainingScenarios, column, orderings))
+        .filter((predictor): predictor is SurrogatePredictor => predictor !== null && predictor.scale > 0);
+    const rows = trainingScenarios.map(scenario => termValues(predictors, scenario, orderings));
+
+    return {
+        predictors,
+        coefficients: fitCoefficients(rows, training.map(t => t.fitted)),
+        trainingIds: trainingScenarios.map(s => s.id),
+        trainingLevels: Object.fromEntries(columns.map(column => [
+            column,
+            Array.from(new Set(trainingScenarios.map(scenario => levelOf(scenario, column)).filter(level => level !== ''))),
+        ])),
+    };
+}
+
+/**
+ * Predicted distribution for every arm of any factor combination
+ */
+export function predictScenario(model: SurrogateModel, scenario: Scenario, orderings: FactorOrdering[] = []): FittedScenarioDistribution {
+    return predictFromTerms(model.coefficients, termValues(model.predictors, scenario, orderings));
+}
+
+/**
+ * Leave-one-out check: refit without each worked scenario in turn and predict it
+ */
+export function crossValidateSurrogate(model: SurrogateModel, scenarios: Scenario[], userData: UserElicitationData, orderings: FactorOrdering[] = []): HeldOutPrediction[] {
+    const training = getTrainingSet(scenarios, userData);
+    const rows = training.map(t => termValues(model.predictors, t.scenario, orderings));
+    return training.map((held, index) => {
+        const keep = (_: unknown, i: number) => i !== index;
+        const coefficients = fitCoefficients(rows.filter(keep), training.filter(keep).map(t => t.fitted));
+        return { scenario: held.scenario, elicited: held.fitted, predicted: predictFromTerms(coefficients, rows[index]) };
+    });
+}
+
+/**
+ * Error of the held-out predictions for one arm
+ */
+export function summariseHeldOut(predictions: HeldOutPrediction[], armId: ArmId): HeldOutSummary {
+    const rmse = (key: 'p05' | 'p50' | 'p95') => Math.sqrt(
+        predictions.reduce((sum, p) => sum + (p.predicted[armId].quantiles[key] - p.elicited[armId].quantiles[key]) ** 2, 0) / predictions.length
+    );
+    const covered = predictions.filter(p => {
+        const median = p.elicited[armId].quantiles.p50;
+        return median >= p.predicted[armId].quantiles.p05 && median <= p.predicted[armId].quantiles.p95;
+    }).length;
+    return {
+        rmseP50: rmse('p50'),
+        rmseP05: rmse('p05'),
+        rmseP95: rmse('p95'),
+        coverage: predictions.length > 0 ? covered / predictions.length : 0,
+    };
+}
+
+/**
+ * Predict every combination of the levels the scenarios use. Combinations matching an existing scenario keep its id.
+ */
+export function buildPredictionGrid(model: SurrogateModel, scenarios: Scenario[], orderings: FactorOrdering[] = []): PredictionGridRow[] {
+    const grid = generateDesign(inferDesignFactors(scenarios, orderings), { type: 'full-factorial', groupName: 'prediction grid' }, scenarios);
+    const trainingIds = new Set(model.trainingIds);
+    return grid.map(scenario => ({
+        scenario,
+        elicited: trainingIds.has(scenario.id),
+        predicted: predictScenario(model, scenario, orderings),
+        outsideTraining: Object.keys(model.trainingLevels)
+            .filter(column => !model.trainingLevels[column].includes(levelOf(scenario, column))),
+    }));
+}
+
+/**
+ * One row per factor combination with each arm's predicted distribution
+ */
+export function generatePredictionGridCSV(rows: PredictionGridRow[]): string {
+    const scenarioHeaders = getScenarioDataColumns(rows.map(row => row.scenario));
+    const armHeaders = ARMS.flatMap(arm =>
+        ['lower', 'mode', 'upper', 'alpha', 'beta', 'mean', 'p05', 'p50', 'p95'].map(suffix => `${arm.csvPrefix}_predicted_${suffix}`)
+    );
+    const headers = ['scenario_id', ...scenarioHeaders, 'elicited', 'outside_training', ...armHeaders];
+
+    const csvRows = rows.map(row => [
+        row.scenario.id,
+        ...scenarioHeaders.map(h => row.scenario[h] ?? ''),
+        row.elicited ? 'yes' : 'no',
+        row.outsideTraining.join('; '),
+        ...ARMS.flatMap(arm => {
+            const fitted = row.predicted[arm.id];
+            return [fitted.lower, fittedMode(fitted), fitted.upper, fitted.alpha, fitted.beta, fitted.mean,
+                fitted.quantiles.p05, fitted.quantiles.p50, fitted.quantiles.p95].map(formatCSVNumber);
+        }),
+    ]);
+
+    return serializeCSV([headers, ...csvRows]);
+}
@@ -18,17 +18,37 @@ export interface UserDistribution {
     max: number | null;
     mode: number | null;
     confidence: number | null;
+    answer?: ProtocolAnswer; // What the expert entered, when the values were fitted from percentiles or chips
 }
 
+// How an expert states a distribution: min/mode/max with confidence, three percentiles, or chips placed in bins
+export type ElicitationProtocol = 'range' | 'quantile' | 'chips';
+
+// The expert's 5th, 50th and 95th percentiles
+export interface QuantileAnswer {
+    protocol: 'quantile';
+    p05: number;
+    p50: number;
+    p95: number;
+}
+
+// Chips placed in adjacent bins; edges has one more entry than chips
+export interface ChipsAnswer {
+    protocol: 'chips';
+    edges: number[];
+    chips: number[];
+}
+
+export type ProtocolAnswer = QuantileAnswer | ChipsAnswer;
+
+// One distribution per outcome arm, keyed by arm id
 export interface ScenarioDistribution {
-    baseline: Distribution;
-    treatment: Distribution;
+    [armId: string]: Distribution;
 }
 
 // User scenario distribution with nullable values
 export interface UserScenarioDistribution {
-    baseline: UserDistribution;
-    treatment: UserDistribution;
+    [armId: string]: UserDistribution;
 }
 
 export interface ElicitationData {
@@ -44,3 +64,90 @@ export interface BetaParams {
     alpha: number;
     beta: number;
 }
+
+export interface DistributionQuantiles {
+    p05: number;
+    p25: number;
+    p50: number;
+    p75: number;
+    p95: number;
+}
+
+// Beta distribution scaled onto [lower, upper], fitted from an elicited Distribution
+export interface FittedDistribution extends BetaParams {
+    lower: number;
+    upper: number;
+    mean: number;
+    variance: number;
+    quantiles: DistributionQuantiles;
+}
+
+export interface FittedScenarioDistribution {
+    [armId: string]: FittedDistribution;
+}
+
+// Declared ordering of a factor column's levels, and the direction yield loss is expected to move along it
+export interface FactorOrdering {
+    column: string;
+    levels?: string[]; // Lowest to highest; numeric columns may omit this and sort by value
+    direction: 'increasing' | 'decreasing';
+}
+
+// A calibration question whose true value is known to the facilitator but not shown to experts
+export interface SeedQuestion {
+    id: string;
+    question: string;
+    units: string;
+    realisation: number; // The known value the expert's percentiles are scored against
+}
+
+// An expert's 5th, 50th and 95th percentiles for each seed question, keyed by question id
+export interface SeedAnswers {
+    [questionId: string]: QuantileAnswer;
+}
+
+// Expert rationale for flags they have reviewed, keyed by flag id
+export interface FlagAcknowledgements {
+    [flagId: string]: string;
+}
+
+// One recorded change to an elicited value or a comment
+export interface AuditEvent {
+    timestamp: string; // ISO
+    scenarioId: string;
+    arm: ArmId | null; // Null for scenario-level fields such as the comment
+    field: string;
+    oldValue: number | string | null;
+    newValue: number | string | null;
+    source: 'edit' | 'undo' | 'redo';
+}
+
+export type ArmId = string;
+
+export type ArmColour = 'blue' | 'green' | 'amber' | 'purple' | 'red' | 'teal';
+
+// An outcome arm as configured by the project
+export interface ArmConfig {
+    id: ArmId;
+    label: string;
+    colour: ArmColour;
+    defaults: Distribution;
+    csvPrefix: string; // Column prefix for the arm's fields, e.g. baseline_min
+    applications: number; // Spray applications the arm costs; zero for the reference arm
+}
+
+// Wording, defaults and data for one elicitation project, read from projects/<id>/project.yaml
+export interface ProjectConfig {
+    id: string;
+    title: string;
+    subtitle: string[];
+    instructions: string[];
+    assumptions: string[];
+    defaultCsv: string;
+    sliderRange: { min: number; max: number };
+    protocol: ElicitationProtocol; // Offered to every expert, who may switch to another
+    chips: { bins: number; total: number }; // Chips-and-bins layout: equal-width bins across the slider range
+    arms: ArmConfig[];
+    factorOrderings: FactorOrdering[];
+    seedQuestions: SeedQuestion[]; // Asked before the scenarios; empty when experts are not calibrated
+}